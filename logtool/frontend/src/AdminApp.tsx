@@ -1,12 +1,16 @@
 import { useEffect, useMemo, useRef, useState } from 'react';
 import { Link } from 'react-router-dom';
 import axios from 'axios';
+import AlertsPanel, { AlertEvent, RuleSnooze } from './components/AlertsPanel';
+import RulePreviewChart, { RulePreview } from './components/RulePreviewChart';
+import { SavedSearchState } from './utils/savedSearches';
 
 interface IndexPatternSetting {
   pattern: string;
   timeField: string;
   searchFields: string[];
   searchMode?: 'relevant' | 'exact' | '';
+  columns?: string[];
 }
 
 interface AdminConfig {
@@ -88,14 +92,38 @@ interface StorageUsage {
   files: { file: string; bytes: number }[];
 }
 
+type RuleCondition = 'count' | 'ratio' | 'metric' | 'unique_count';
+
 interface Rule {
   id: string;
   name: string;
   query: string;
+  indexPattern: string;
+  condition: RuleCondition;
+  comparator: 'above' | 'below';
+  field?: string;
+  metric?: 'avg' | 'max' | 'percentile';
+  percentile?: number;
+  denominatorQuery?: string;
   threshold: number;
   windowMinutes: number;
   team?: string;
   email?: string;
+  channelIds?: string[];
+}
+
+type ChannelType = 'webhook' | 'slack' | 'teams' | 'email';
+
+interface NotificationChannel {
+  id: string;
+  name: string;
+  type: ChannelType;
+  url: string;
+  to: string;
+  headers: Record<string, string>;
+  bodyTemplate: string;
+  enabled: boolean;
+  createdAt?: string;
 }
 
 interface TeamBookmark {
@@ -103,9 +131,22 @@ interface TeamBookmark {
   name: string;
   query: string;
   team?: string;
+  state?: SavedSearchState;
   createdAt?: string;
 }
 
+interface ShortLink {
+  id: string;
+  query: string;
+  state?: SavedSearchState;
+  createdBy: string;
+  createdAt: string;
+  expiresAt?: string;
+  lastOpenedAt?: string;
+  openCount: number;
+  expired: boolean;
+}
+
 interface Team {
   id: string;
   name: string;
@@ -310,7 +351,14 @@ function AdminApp() {
   const [metrics, setMetrics] = useState<MetricsSnapshot | null>(null);
   const [storage, setStorage] = useState<StorageUsage | null>(null);
   const [rules, setRules] = useState<Rule[]>([]);
+  const [channels, setChannels] = useState<NotificationChannel[]>([]);
+  const [channelTestStatus, setChannelTestStatus] = useState<Record<string, string>>({});
+  const [rulePreviews, setRulePreviews] = useState<Record<string, { loading: boolean; error?: string; data?: RulePreview }>>({});
+  const [alertEvents, setAlertEvents] = useState<AlertEvent[]>([]);
+  const [alertSnoozes, setAlertSnoozes] = useState<RuleSnooze[]>([]);
   const [teamBookmarks, setTeamBookmarks] = useState<TeamBookmark[]>([]);
+  const [shortLinks, setShortLinks] = useState<ShortLink[]>([]);
+  const [shortLinkUnusedDays, setShortLinkUnusedDays] = useState('90');
   const [diagnostics, setDiagnostics] = useState<Diagnostics | null>(null);
   const [loading, setLoading] = useState(false);
   const [notice, setNotice] = useState<{ type: NoticeType; message: string } | null>(null);
@@ -394,6 +442,10 @@ function AdminApp() {
     const saved = localStorage.getItem('adminShowTeamBookmarks');
     return saved === 'true';
   });
+  const [showShortLinks, setShowShortLinks] = useState(() => {
+    const saved = localStorage.getItem('adminShowShortLinks');
+    return saved === 'true';
+  });
   const [showMaintenance, setShowMaintenance] = useState(() => {
     const saved = localStorage.getItem('adminShowMaintenance');
     return saved === 'true';
@@ -427,6 +479,14 @@ function AdminApp() {
     const saved = localStorage.getItem('adminShowAlertRules');
     return saved === 'true';
   });
+  const [showAlertHistory, setShowAlertHistory] = useState(() => {
+    const saved = localStorage.getItem('adminShowAlertHistory');
+    return saved === 'true';
+  });
+  const [showChannels, setShowChannels] = useState(() => {
+    const saved = localStorage.getItem('adminShowChannels');
+    return saved === 'true';
+  });
   const [showFeatureToggles, setShowFeatureToggles] = useState(() => {
     const saved = localStorage.getItem('adminShowToggles');
     return saved === 'true';
@@ -455,6 +515,7 @@ function AdminApp() {
     setShowIndexManagement(false);
     setShowAppConfig(false);
     setShowTeamBookmarks(false);
+    setShowShortLinks(false);
     setShowMaintenance(false);
     setShowBranding(false);
     setShowHealth(false);
@@ -470,6 +531,7 @@ function AdminApp() {
     localStorage.setItem('adminShowIndexManagement', 'false');
     localStorage.setItem('adminShowAppConfig', 'false');
     localStorage.setItem('adminShowTeamBookmarks', 'false');
+    localStorage.setItem('adminShowShortLinks', 'false');
     localStorage.setItem('adminShowMaintenance', 'false');
     localStorage.setItem('adminShowBranding', 'false');
     localStorage.setItem('adminShowHealth', 'false');
@@ -577,11 +639,13 @@ function AdminApp() {
   const loadAll = async () => {
     setLoading(true);
     try {
-      const [cfg, met, stor, rulesRes, diags, bookmarks, toggles, teamRes, anomalyRes, activityRes, healthRes, weeklyRes, usersUsageRes, hourlyRes] = await Promise.all([
+      const [cfg, met, stor, rulesRes, channelsRes, alertsRes, diags, bookmarks, toggles, teamRes, anomalyRes, activityRes, healthRes, weeklyRes, usersUsageRes, hourlyRes, linksRes] = await Promise.all([
         adminRequest<AdminConfig>('get', '/api/admin/config'),
         adminRequest<MetricsSnapshot>('get', '/api/admin/metrics'),
         adminRequest<StorageUsage>('get', '/api/admin/storage'),
         adminRequest<Rule[]>('get', '/api/admin/rules'),
+        adminRequest<NotificationChannel[]>('get', '/api/admin/channels'),
+        adminRequest<{ events: AlertEvent[]; snoozes: RuleSnooze[] }>('get', '/api/admin/alerts'),
         adminRequest<Diagnostics>('get', '/api/admin/diagnostics'),
         adminRequest<TeamBookmark[]>('get', '/api/admin/team-bookmarks'),
         adminRequest<{ teams: Record<string, { exports: boolean; bookmarks: boolean; rules: boolean; queryBuilder: boolean; limitTo7Days: boolean; piiUnmasked: boolean; showFullResults: boolean }> }>('get', '/api/admin/feature-toggles'),
@@ -591,7 +655,8 @@ function AdminApp() {
         adminRequest<HealthTrendResponse>('get', '/api/admin/health-trend'),
         adminRequest<WeeklyUsageResponse>('get', '/api/admin/metrics-weekly'),
         adminRequest<DailyTopUsersResponse>('get', '/api/admin/metrics-users-daily'),
-        adminRequest<HourlyUsageResponse>('get', '/api/admin/metrics-hourly')
+        adminRequest<HourlyUsageResponse>('get', '/api/admin/metrics-hourly'),
+        adminRequest<ShortLink[]>('get', '/api/admin/links')
       ]);
       const usersRes = await adminRequest<{ id: string; username: string; role: string; teams: string[]; createdAt?: string; lastLoginAt?: string }[]>('get', '/api/admin/users');
       setConfig(cfg.data);
@@ -621,8 +686,12 @@ function AdminApp() {
       setMetrics(met.data);
       setStorage(stor.data);
       setRules(rulesRes.data);
+      setChannels(channelsRes.data || []);
+      setAlertEvents(alertsRes.data?.events || []);
+      setAlertSnoozes(alertsRes.data?.snoozes || []);
       setDiagnostics(diags.data);
       setTeamBookmarks(bookmarks.data);
+      setShortLinks(linksRes.data || []);
       setFeatureToggles(toggles.data.teams || {});
       setTeams(teamRes.data || []);
       setAnomalies(anomalyRes.data || null);
@@ -792,6 +861,10 @@ function AdminApp() {
     localStorage.setItem('adminShowTeamBookmarks', showTeamBookmarks ? 'true' : 'false');
   }, [showTeamBookmarks]);
 
+  useEffect(() => {
+    localStorage.setItem('adminShowShortLinks', showShortLinks ? 'true' : 'false');
+  }, [showShortLinks]);
+
   useEffect(() => {
     localStorage.setItem('adminShowMaintenance', showMaintenance ? 'true' : 'false');
   }, [showMaintenance]);
@@ -824,6 +897,14 @@ function AdminApp() {
     localStorage.setItem('adminShowAlertRules', showAlertRules ? 'true' : 'false');
   }, [showAlertRules]);
 
+  useEffect(() => {
+    localStorage.setItem('adminShowChannels', showChannels ? 'true' : 'false');
+  }, [showChannels]);
+
+  useEffect(() => {
+    localStorage.setItem('adminShowAlertHistory', showAlertHistory ? 'true' : 'false');
+  }, [showAlertHistory]);
+
   useEffect(() => {
     localStorage.setItem('adminShowToggles', showFeatureToggles ? 'true' : 'false');
   }, [showFeatureToggles]);
@@ -920,7 +1001,7 @@ function AdminApp() {
   };
 
   const addIndexPatternSetting = () => {
-    setIndexPatternSettings((current) => [...current, { pattern: '', timeField: '', searchFields: [], searchMode: '' }]);
+    setIndexPatternSettings((current) => [...current, { pattern: '', timeField: '', searchFields: [], searchMode: '', columns: [] }]);
   };
 
   const removeIndexPatternSetting = (index: number) => {
@@ -1012,7 +1093,10 @@ function AdminApp() {
           ? entry.searchFields.map((field) => String(field).trim()).filter((field) => field.length > 0)
           : [];
         const searchMode = entry.searchMode === 'exact' || entry.searchMode === 'relevant' ? entry.searchMode : '';
-        return { pattern, timeField, searchFields, searchMode };
+        const columns = Array.isArray(entry.columns)
+          ? entry.columns.map((field) => String(field).trim()).filter((field) => field.length > 0)
+          : [];
+        return { pattern, timeField, searchFields, searchMode, columns };
       })
       .filter(Boolean) as IndexPatternSetting[];
     const payload = { ...config, indexOptions, indexPatternSettings: normalizedIndexPatternSettings, fieldExplorerFields, teamIndexAccess, userIndexAccess, piiFieldRules, highlightRules };
@@ -1104,9 +1188,84 @@ function AdminApp() {
   };
 
   const saveRules = async () => {
-    const res = await adminRequest<Rule[]>('put', '/api/admin/rules', rules);
-    setRules(res.data);
-    showNotice('Rules updated.', 'success');
+    try {
+      const res = await adminRequest<Rule[]>('put', '/api/admin/rules', rules);
+      setRules(res.data);
+      showNotice('Rules updated.', 'success');
+    } catch (error: any) {
+      showNotice(error?.response?.data?.error || 'Failed to save rules.', 'error');
+    }
+  };
+
+  const previewRule = async (rule: Rule) => {
+    setRulePreviews((prev) => ({ ...prev, [rule.id]: { loading: true } }));
+    try {
+      const res = await adminRequest<RulePreview>('post', '/api/admin/rules/preview', rule);
+      setRulePreviews((prev) => ({ ...prev, [rule.id]: { loading: false, data: res.data } }));
+    } catch (error: any) {
+      const detail = error?.response?.data?.detail || error?.response?.data?.error || error?.message || 'Preview failed.';
+      setRulePreviews((prev) => ({ ...prev, [rule.id]: { loading: false, error: typeof detail === 'string' ? detail : JSON.stringify(detail) } }));
+    }
+  };
+
+  const loadAlerts = async () => {
+    const res = await adminRequest<{ events: AlertEvent[]; snoozes: RuleSnooze[] }>('get', '/api/admin/alerts');
+    setAlertEvents(res.data.events || []);
+    setAlertSnoozes(res.data.snoozes || []);
+  };
+
+  const acknowledgeAlert = async (id: string) => {
+    try {
+      await adminRequest('post', `/api/admin/alerts/${encodeURIComponent(id)}/ack`);
+      await loadAlerts();
+    } catch (error: any) {
+      showNotice(error?.response?.data?.error || 'Failed to acknowledge alert.', 'error');
+    }
+  };
+
+  const snoozeAlertRule = async (ruleId: string, until: string | null) => {
+    try {
+      await adminRequest('post', '/api/admin/alerts/snooze', { ruleId, until });
+      await loadAlerts();
+      showNotice(until ? 'Rule snoozed.' : 'Rule snooze cleared.', 'success');
+    } catch (error: any) {
+      showNotice(error?.response?.data?.error || 'Failed to snooze rule.', 'error');
+    }
+  };
+
+  const addChannel = () => {
+    setChannels((prev) => [
+      ...prev,
+      { id: createClientId(), name: '', type: 'webhook', url: '', to: '', headers: {}, bodyTemplate: '', enabled: true }
+    ]);
+  };
+
+  const updateChannel = (id: string, patch: Partial<NotificationChannel>) => {
+    setChannels((prev) => prev.map((entry) => (entry.id === id ? { ...entry, ...patch } : entry)));
+  };
+
+  const saveChannels = async () => {
+    try {
+      const res = await adminRequest<NotificationChannel[]>('put', '/api/admin/channels', channels);
+      setChannels(res.data);
+      showNotice('Notification channels updated.', 'success');
+    } catch (error: any) {
+      showNotice(error?.response?.data?.error || 'Failed to save channels.', 'error');
+    }
+  };
+
+  const sendTestNotification = async (channel: NotificationChannel) => {
+    setChannelTestStatus((prev) => ({ ...prev, [channel.id]: 'Testing...' }));
+    try {
+      await adminRequest('post', '/api/admin/channels/test', channel);
+      setChannelTestStatus((prev) => ({ ...prev, [channel.id]: 'Test sent.' }));
+    } catch (error: any) {
+      const status = error?.response?.status;
+      const detail = error?.response?.data?.detail || error?.response?.data?.error;
+      const message = detail || error?.message || 'Test notification failed.';
+      const suffix = status ? ` (HTTP ${status})` : '';
+      setChannelTestStatus((prev) => ({ ...prev, [channel.id]: `${message}${suffix}` }));
+    }
   };
 
   const sendTestEmail = async () => {
@@ -1129,7 +1288,7 @@ function AdminApp() {
   const addRule = () => {
     setRules((prev) => [
       ...prev,
-      { id: createClientId(), name: '', query: '', threshold: 5, windowMinutes: 60, team: '' }
+      { id: createClientId(), name: '', query: '', indexPattern: config.defaultIndexPattern, condition: 'count', comparator: 'above', threshold: 5, windowMinutes: 60, team: '' }
     ]);
   };
 
@@ -1279,6 +1438,19 @@ function AdminApp() {
     setTeamBookmarks((prev) => prev.filter((b) => b.id !== id));
   };
 
+  const deleteShortLink = async (id: string) => {
+    await adminRequest<{ removed: number }>('delete', `/api/admin/links/${id}`);
+    setShortLinks((prev) => prev.filter((link) => link.id !== id));
+  };
+
+  const cleanupShortLinks = async () => {
+    const unusedDays = Number(shortLinkUnusedDays) || 0;
+    const res = await adminRequest<{ removed: number }>('post', '/api/admin/links/cleanup', { unusedDays });
+    const linksRes = await adminRequest<ShortLink[]>('get', '/api/admin/links');
+    setShortLinks(linksRes.data || []);
+    showNotice(`Removed ${res.data.removed} short link${res.data.removed === 1 ? '' : 's'}.`, 'success');
+  };
+
   const addAdminTeam = async () => {
     const name = newAdminTeamName.trim();
     const description = newAdminTeamDesc.trim();
@@ -1896,6 +2068,13 @@ function AdminApp() {
                           rows={2}
                           className="md:col-span-3 w-full px-2 py-1 border dark:border-gray-700 dark:bg-gray-900 dark:text-gray-100 rounded text-xs"
                         />
+                        <textarea
+                          value={(entry.columns || []).join('\n')}
+                          onChange={(e) => updateIndexPatternSetting(idx, { columns: e.target.value.split('\n') })}
+                          placeholder="Default table columns (one per line)"
+                          rows={2}
+                          className="md:col-span-11 w-full px-2 py-1 border dark:border-gray-700 dark:bg-gray-900 dark:text-gray-100 rounded text-xs"
+                        />
                         <button
                           onClick={() => removeIndexPatternSetting(idx)}
                           className="md:col-span-1 px-2 py-1 bg-gray-200 dark:bg-gray-700 dark:text-gray-100 rounded text-xs"
@@ -1908,7 +2087,7 @@ function AdminApp() {
                   <div className="mt-2">
                     <button onClick={addIndexPatternSetting} className="px-3 py-2 bg-gray-200 dark:bg-gray-700 dark:text-gray-100 rounded text-xs">Add override</button>
                   </div>
-                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Only exact index pattern matches. Leave fields blank to use defaults.</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Only exact index pattern matches. Leave fields blank to use defaults. Table columns are the team default until a user picks their own.</p>
                 </div>
               </div>
               <div className="mt-4 flex flex-wrap gap-2 items-center">
@@ -2079,6 +2258,95 @@ function AdminApp() {
           ) : null}
         </section>
 
+        <section className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border dark:border-gray-700 p-5">
+          <div className="flex flex-wrap items-start justify-between gap-3 mb-4">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-100">Notification Channels</h2>
+              <div className="text-xs text-gray-500 dark:text-gray-400">
+                {channels.length} channel{channels.length === 1 ? '' : 's'} configured.
+              </div>
+            </div>
+            <button
+              onClick={() => setShowChannels((prev) => !prev)}
+              className="px-3 py-2 bg-gray-200 dark:bg-gray-700 dark:text-gray-100 rounded text-sm"
+            >
+              {showChannels ? 'Hide channels' : 'Manage channels'}
+            </button>
+          </div>
+          {showChannels ? (
+            <>
+              <div className="border dark:border-gray-700 rounded max-h-96 overflow-auto">
+                <div className="space-y-3 p-2">
+                  {channels.map((channel) => (
+                    <div key={channel.id} className="border dark:border-gray-700 rounded p-2 space-y-2 text-sm">
+                      <div className="grid grid-cols-1 md:grid-cols-6 gap-2">
+                        <input value={channel.name} onChange={(e) => updateChannel(channel.id, { name: e.target.value })} placeholder="Channel name" className="px-2 py-1 border dark:border-gray-700 dark:bg-gray-900 dark:text-gray-100 rounded" />
+                        <select value={channel.type} onChange={(e) => updateChannel(channel.id, { type: e.target.value as ChannelType })} className="px-2 py-1 border dark:border-gray-700 dark:bg-gray-900 dark:text-gray-100 rounded">
+                          <option value="webhook">Webhook (JSON)</option>
+                          <option value="slack">Slack incoming webhook</option>
+                          <option value="teams">Microsoft Teams connector</option>
+                          <option value="email">Email</option>
+                        </select>
+                        {channel.type === 'email' ? (
+                          <input value={channel.to} onChange={(e) => updateChannel(channel.id, { to: e.target.value })} placeholder="Recipient(s), comma separated" className="md:col-span-2 px-2 py-1 border dark:border-gray-700 dark:bg-gray-900 dark:text-gray-100 rounded" />
+                        ) : (
+                          <input value={channel.url} onChange={(e) => updateChannel(channel.id, { url: e.target.value })} placeholder="https://..." className="md:col-span-2 px-2 py-1 border dark:border-gray-700 dark:bg-gray-900 dark:text-gray-100 rounded" />
+                        )}
+                        <label className="inline-flex items-center gap-2 text-gray-700 dark:text-gray-200">
+                          <input type="checkbox" checked={channel.enabled} onChange={(e) => updateChannel(channel.id, { enabled: e.target.checked })} />
+                          Enabled
+                        </label>
+                        <div className="flex gap-2">
+                          <button onClick={() => sendTestNotification(channel)} className="px-2 py-1 bg-gray-200 dark:bg-gray-700 dark:text-gray-100 rounded">Send test</button>
+                          <button onClick={() => setChannels((prev) => prev.filter((entry) => entry.id !== channel.id))} className="px-2 py-1 bg-red-100 text-red-700 rounded">Remove</button>
+                        </div>
+                      </div>
+                      {channel.type === 'webhook' && (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                          <textarea
+                            key={`${channel.id}-headers`}
+                            defaultValue={Object.entries(channel.headers || {}).map(([key, value]) => `${key}: ${value}`).join('\n')}
+                            onBlur={(e) => {
+                              const headers: Record<string, string> = {};
+                              e.target.value.split('\n').forEach((line) => {
+                                const sep = line.indexOf(':');
+                                if (sep <= 0) return;
+                                headers[line.slice(0, sep).trim()] = line.slice(sep + 1).trim();
+                              });
+                              updateChannel(channel.id, { headers });
+                            }}
+                            rows={4}
+                            placeholder="Extra headers, one per line (Authorization: Bearer ...)"
+                            className="px-2 py-1 border dark:border-gray-700 dark:bg-gray-900 dark:text-gray-100 rounded font-mono text-xs"
+                          />
+                          <textarea
+                            value={channel.bodyTemplate}
+                            onChange={(e) => updateChannel(channel.id, { bodyTemplate: e.target.value })}
+                            rows={4}
+                            placeholder='{"summary": "{{subject}}", "severity": "critical", "value": "{{value}}"}'
+                            className="px-2 py-1 border dark:border-gray-700 dark:bg-gray-900 dark:text-gray-100 rounded font-mono text-xs"
+                          />
+                        </div>
+                      )}
+                      {channelTestStatus[channel.id] && (
+                        <div className={`text-xs ${channelTestStatus[channel.id] === 'Test sent.' ? 'text-green-600' : channelTestStatus[channel.id] === 'Testing...' ? 'text-gray-600 dark:text-gray-300' : 'text-red-600'}`}>
+                          {channelTestStatus[channel.id]}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                  {channels.length === 0 && <div className="text-sm text-gray-500 dark:text-gray-400">No channels configured. Rules without channels email the default alert recipient.</div>}
+                </div>
+              </div>
+              <div className="mt-4 flex gap-2">
+                <button onClick={addChannel} className="px-3 py-2 bg-gray-200 dark:bg-gray-700 dark:text-gray-100 rounded">Add Channel</button>
+                <button onClick={saveChannels} className="px-3 py-2 bg-blue-600 text-white rounded">Save Channels</button>
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">Webhook body templates are JSON with placeholders: {'{{subject}}'}, {'{{text}}'}, {'{{ruleName}}'}, {'{{ruleId}}'}, {'{{query}}'}, {'{{indexPattern}}'}, {'{{condition}}'}, {'{{value}}'}, {'{{threshold}}'}, {'{{windowMinutes}}'}, {'{{team}}'}, {'{{triggeredAt}}'}. Leave it empty to send all of them as a JSON object.</p>
+            </>
+          ) : null}
+        </section>
+
         <section className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border dark:border-gray-700 p-5">
           <div className="flex flex-wrap items-start justify-between gap-3 mb-4">
             <div>
@@ -2099,7 +2367,8 @@ function AdminApp() {
               <div className="border dark:border-gray-700 rounded max-h-96 overflow-auto">
                 <div className="space-y-3 p-2">
                   {rules.map((rule, idx) => (
-                    <div key={rule.id} className="grid grid-cols-1 md:grid-cols-7 gap-2 text-sm">
+                    <div key={rule.id} className="border dark:border-gray-700 rounded p-2 space-y-2 text-sm">
+                    <div className="grid grid-cols-1 md:grid-cols-8 gap-2">
                     <input value={rule.name} onChange={(e) => {
                       const next = [...rules];
                       next[idx] = { ...rule, name: e.target.value };
@@ -2110,6 +2379,11 @@ function AdminApp() {
                       next[idx] = { ...rule, query: e.target.value };
                       setRules(next);
                     }} placeholder="Query text" className="px-2 py-1 border dark:border-gray-700 dark:bg-gray-900 dark:text-gray-100 rounded" />
+                    <input value={rule.indexPattern || ''} onChange={(e) => {
+                      const next = [...rules];
+                      next[idx] = { ...rule, indexPattern: e.target.value };
+                      setRules(next);
+                    }} list="alert-rule-index-options" placeholder="Index pattern" className="px-2 py-1 border dark:border-gray-700 dark:bg-gray-900 dark:text-gray-100 rounded" />
                     <input type="number" value={rule.threshold} onChange={(e) => {
                       const next = [...rules];
                       next[idx] = { ...rule, threshold: Number(e.target.value) };
@@ -2132,19 +2406,150 @@ function AdminApp() {
                     }} placeholder="Email (optional)" className="px-2 py-1 border dark:border-gray-700 dark:bg-gray-900 dark:text-gray-100 rounded" />
                     <button onClick={() => setRules((prev) => prev.filter((r) => r.id !== rule.id))} className="px-2 py-1 bg-red-100 text-red-700 rounded">Remove</button>
                     </div>
+                    <div className="grid grid-cols-1 md:grid-cols-8 gap-2">
+                    <select value={rule.condition || 'count'} onChange={(e) => {
+                      const next = [...rules];
+                      next[idx] = { ...rule, condition: e.target.value as RuleCondition };
+                      setRules(next);
+                    }} className="px-2 py-1 border dark:border-gray-700 dark:bg-gray-900 dark:text-gray-100 rounded">
+                      <option value="count">Hit count</option>
+                      <option value="ratio">Ratio of two queries (%)</option>
+                      <option value="metric">Numeric field</option>
+                      <option value="unique_count">Unique count of field</option>
+                    </select>
+                    <select value={rule.comparator || 'above'} onChange={(e) => {
+                      const next = [...rules];
+                      next[idx] = { ...rule, comparator: e.target.value as Rule['comparator'] };
+                      setRules(next);
+                    }} className="px-2 py-1 border dark:border-gray-700 dark:bg-gray-900 dark:text-gray-100 rounded">
+                      <option value="above">Above threshold</option>
+                      <option value="below">Below threshold</option>
+                    </select>
+                    {rule.condition === 'ratio' && (
+                      <input value={rule.denominatorQuery || ''} onChange={(e) => {
+                        const next = [...rules];
+                        next[idx] = { ...rule, denominatorQuery: e.target.value };
+                        setRules(next);
+                      }} placeholder="Out of query (default *)" className="md:col-span-2 px-2 py-1 border dark:border-gray-700 dark:bg-gray-900 dark:text-gray-100 rounded" />
+                    )}
+                    {(rule.condition === 'metric' || rule.condition === 'unique_count') && (
+                      <input value={rule.field || ''} onChange={(e) => {
+                        const next = [...rules];
+                        next[idx] = { ...rule, field: e.target.value };
+                        setRules(next);
+                      }} placeholder="Field (e.g. duration_ms)" className="md:col-span-2 px-2 py-1 border dark:border-gray-700 dark:bg-gray-900 dark:text-gray-100 rounded" />
+                    )}
+                    {rule.condition === 'metric' && (
+                      <select value={rule.metric || 'avg'} onChange={(e) => {
+                        const next = [...rules];
+                        next[idx] = { ...rule, metric: e.target.value as Rule['metric'] };
+                        setRules(next);
+                      }} className="px-2 py-1 border dark:border-gray-700 dark:bg-gray-900 dark:text-gray-100 rounded">
+                        <option value="avg">Average</option>
+                        <option value="max">Maximum</option>
+                        <option value="percentile">Percentile</option>
+                      </select>
+                    )}
+                    {rule.condition === 'metric' && rule.metric === 'percentile' && (
+                      <input type="number" min={1} max={99.9} value={rule.percentile ?? 95} onChange={(e) => {
+                        const next = [...rules];
+                        next[idx] = { ...rule, percentile: Number(e.target.value) };
+                        setRules(next);
+                      }} placeholder="Percentile" className="px-2 py-1 border dark:border-gray-700 dark:bg-gray-900 dark:text-gray-100 rounded" />
+                    )}
+                    <button
+                      onClick={() => previewRule(rule)}
+                      disabled={rulePreviews[rule.id]?.loading || !rule.query.trim()}
+                      className="md:col-start-8 px-2 py-1 bg-gray-200 dark:bg-gray-700 dark:text-gray-100 rounded disabled:opacity-50"
+                    >
+                      {rulePreviews[rule.id]?.loading ? 'Previewing...' : 'Preview 7 days'}
+                    </button>
+                    </div>
+                    {rulePreviews[rule.id]?.error && (
+                      <div className="text-xs text-red-600">{rulePreviews[rule.id]?.error}</div>
+                    )}
+                    {rulePreviews[rule.id]?.data ? (
+                      <RulePreviewChart preview={rulePreviews[rule.id].data as RulePreview} />
+                    ) : null}
+                    {channels.length > 0 && (
+                      <div className="flex flex-wrap items-center gap-3 text-xs text-gray-600 dark:text-gray-300">
+                        <span>Notify:</span>
+                        {channels.map((channel) => {
+                          const selected = (rule.channelIds || []).includes(channel.id);
+                          return (
+                            <label key={channel.id} className="inline-flex items-center gap-1">
+                              <input
+                                type="checkbox"
+                                checked={selected}
+                                onChange={() => {
+                                  const current = rule.channelIds || [];
+                                  const next = [...rules];
+                                  next[idx] = {
+                                    ...rule,
+                                    channelIds: selected ? current.filter((id) => id !== channel.id) : [...current, channel.id]
+                                  };
+                                  setRules(next);
+                                }}
+                              />
+                              {channel.name || '(unnamed)'} <span className="text-gray-400">({channel.type})</span>
+                            </label>
+                          );
+                        })}
+                      </div>
+                    )}
+                    </div>
                   ))}
                   {rules.length === 0 && <div className="text-sm text-gray-500 dark:text-gray-400">No rules configured.</div>}
                 </div>
               </div>
+              <datalist id="alert-rule-index-options">
+                {(config.indexOptions || []).map((raw) => {
+                  const value = String(raw).split('|')[0].trim();
+                  return value ? <option key={value} value={value} /> : null;
+                })}
+              </datalist>
               <div className="mt-4 flex gap-2">
                 <button onClick={addRule} className="px-3 py-2 bg-gray-200 dark:bg-gray-700 dark:text-gray-100 rounded">Add Rule</button>
                 <button onClick={saveRules} className="px-3 py-2 bg-blue-600 text-white rounded">Save Alert Rules</button>
               </div>
-              <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">Threshold is the number of matches within the window (minutes) to trigger an email alert.</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">Each rule is evaluated over its window (minutes): hit count of the query, percentage of the query within the "out of" query, a numeric field average/maximum/percentile, or the number of unique field values. Use "Below threshold" for dead-man alerts such as no logs from a service.</p>
             </>
           ) : null}
         </section>
 
+        <section className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border dark:border-gray-700 p-5">
+          <div className="flex flex-wrap items-start justify-between gap-3 mb-4">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-100">Alerts</h2>
+              <div className="text-xs text-gray-500 dark:text-gray-400">
+                {alertEvents.filter((event) => !event.acknowledgedAt).length} open · {alertEvents.length} recent · {alertSnoozes.length} snoozed rule{alertSnoozes.length === 1 ? '' : 's'}
+              </div>
+            </div>
+            <div className="flex gap-2">
+              {showAlertHistory && (
+                <button onClick={loadAlerts} className="px-3 py-2 bg-gray-200 dark:bg-gray-700 dark:text-gray-100 rounded text-sm">Refresh</button>
+              )}
+              <button
+                onClick={() => setShowAlertHistory((prev) => !prev)}
+                className="px-3 py-2 bg-gray-200 dark:bg-gray-700 dark:text-gray-100 rounded text-sm"
+              >
+                {showAlertHistory ? 'Hide alerts' : 'Show alerts'}
+              </button>
+            </div>
+          </div>
+          {showAlertHistory ? (
+            <div className="border dark:border-gray-700 rounded max-h-[32rem] overflow-auto p-2">
+              <AlertsPanel
+                events={alertEvents}
+                snoozes={alertSnoozes}
+                canManage
+                onAcknowledge={acknowledgeAlert}
+                onSnooze={snoozeAlertRule}
+              />
+            </div>
+          ) : null}
+        </section>
+
         <section className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border dark:border-gray-700 p-5">
           <div className="flex flex-wrap items-start justify-between gap-3 mb-4">
             <div>
@@ -2224,6 +2629,11 @@ function AdminApp() {
                       <div className="font-medium text-gray-700 dark:text-gray-200">{b.name}</div>
                       <div className="text-gray-500 dark:text-gray-400">{b.query}</div>
                       {b.team && <div className="text-xs text-gray-400 dark:text-gray-500">Team: {b.team}</div>}
+                      {b.state && (
+                        <div className="text-xs text-gray-400 dark:text-gray-500">
+                          {[b.state.indexPattern, b.state.timePreset, b.state.queryLanguage].filter(Boolean).join(' · ')}
+                        </div>
+                      )}
                     </div>
                     <button onClick={() => deleteTeamBookmark(b.id)} className="px-2 py-1 bg-red-100 text-red-700 rounded">Delete</button>
                   </div>
@@ -2233,6 +2643,65 @@ function AdminApp() {
           ) : null}
         </section>
 
+        <section className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border dark:border-gray-700 p-5">
+          <div className="flex flex-wrap items-start justify-between gap-3 mb-4">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-100">Short Links</h2>
+              <div className="text-xs text-gray-500 dark:text-gray-400">
+                {shortLinks.length} link{shortLinks.length === 1 ? '' : 's'} stored, {shortLinks.filter((link) => link.expired).length} expired.
+              </div>
+            </div>
+            <button
+              onClick={() => setShowShortLinks((prev) => !prev)}
+              className="px-3 py-2 bg-gray-200 dark:bg-gray-700 dark:text-gray-100 rounded text-sm"
+            >
+              {showShortLinks ? 'Hide short links' : 'Manage short links'}
+            </button>
+          </div>
+          {showShortLinks ? (
+            <>
+              <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+                <span className="text-gray-600 dark:text-gray-300">Remove expired links and links not opened in</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={shortLinkUnusedDays}
+                  onChange={(e) => setShortLinkUnusedDays(e.target.value)}
+                  className="w-20 px-2 py-1 border dark:border-gray-700 dark:bg-gray-900 dark:text-gray-100 rounded"
+                />
+                <span className="text-gray-600 dark:text-gray-300">days (0 = expired only)</span>
+                <button onClick={cleanupShortLinks} className="px-3 py-1 bg-red-600 text-white rounded">Clean up</button>
+              </div>
+              {shortLinks.length === 0 && <p className="text-sm text-gray-500 dark:text-gray-400">No short links.</p>}
+              <div className="space-y-2">
+                {shortLinks.map((link) => (
+                  <div key={link.id} className="flex items-center justify-between text-sm">
+                    <div className="min-w-0">
+                      <div className="font-medium text-gray-700 dark:text-gray-200">
+                        /s/{link.id}
+                        {link.expired && <span className="ml-2 text-xs text-red-600">expired</span>}
+                      </div>
+                      <div className="text-gray-500 dark:text-gray-400 truncate">{link.query || '(no query)'}</div>
+                      {link.state && (
+                        <div className="text-xs text-gray-400 dark:text-gray-500">
+                          {[link.state.indexPattern, link.state.timePreset, link.state.queryLanguage].filter(Boolean).join(' · ')}
+                        </div>
+                      )}
+                      <div className="text-xs text-gray-400 dark:text-gray-500">
+                        By {link.createdBy} at {link.createdAt}
+                        {link.expiresAt ? ` · expires ${link.expiresAt}` : ''}
+                        {` · opened ${link.openCount} time${link.openCount === 1 ? '' : 's'}`}
+                        {link.lastOpenedAt ? `, last ${link.lastOpenedAt}` : ''}
+                      </div>
+                    </div>
+                    <button onClick={() => deleteShortLink(link.id)} className="px-2 py-1 bg-red-100 text-red-700 rounded">Delete</button>
+                  </div>
+                ))}
+              </div>
+            </>
+          ) : null}
+        </section>
+
         <section className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border dark:border-gray-700 p-5">
           <div className="flex flex-wrap items-start justify-between gap-3 mb-4">
             <div>
@@ -1,5 +1,5 @@
 import { useEffect, useState } from 'react';
-import { BrowserRouter, Routes, Route, useLocation } from 'react-router-dom';
+import { BrowserRouter, Routes, Route, useLocation, useNavigate, useParams } from 'react-router-dom';
 import axios from 'axios';
 import LogSearchApp from './LogSearchApp';
 import AdminApp from './AdminApp';
@@ -194,6 +194,36 @@ function NotFound() {
   );
 }
 
+// Resolves a short link and hands its search to the main page as router state.
+function ShortLink() {
+  const { id = '' } = useParams();
+  const navigate = useNavigate();
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    axios.get(`/api/links/${encodeURIComponent(id)}`)
+      .then((res) => navigate('/', { replace: true, state: { sharedSearch: res.data } }))
+      .catch((err) => {
+        setError(axios.isAxiosError(err) && err.response?.data?.error ? err.response.data.error : 'This link could not be opened.');
+      });
+  }, [id]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50">
+      <div className="text-center">
+        {error ? (
+          <>
+            <p className="text-gray-600">{error}</p>
+            <a href="/" className="inline-block mt-4 text-blue-600 underline">Go home</a>
+          </>
+        ) : (
+          <p className="text-gray-600">Opening link...</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
 function App() {
   const [authEnabled, setAuthEnabled] = useState<boolean | null>(null);
   const getStoredAuthToken = () => sessionStorage.getItem('authToken') || localStorage.getItem('authToken') || '';
@@ -395,6 +425,7 @@ function AppRoutes({
           />
         }
       />
+      <Route path="/s/:id" element={<ShortLink />} />
       <Route path="/help" element={<HelpPage />} />
       <Route
         path="/upload"
@@ -1,9 +1,39 @@
 // frontend/src/LogSearchApp.tsx
-import { useState, useEffect } from 'react';
-import { Link } from 'react-router-dom';
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { Link, useLocation, useSearchParams } from 'react-router-dom';
 import axios from 'axios';
 import { subMinutes, startOfToday, subHours, subDays, formatISO } from 'date-fns';
 import JsonHighlighter from './components/SyntaxHighlighter';
+import AlertsPanel, { AlertEvent, RuleSnooze } from './components/AlertsPanel';
+import HitsHistogram, { HistogramBucket } from './components/HitsHistogram';
+import ContextDrawer, { ContextResponse } from './components/ContextDrawer';
+import ResultsTable, { IndexField, TableColumn, TableSort } from './components/ResultsTable';
+import FieldStatsPopover, { FieldStats } from './components/FieldStatsPopover';
+import QueryInput from './components/QueryInput';
+import SqlResultsTable, { SqlResult } from './components/SqlResultsTable';
+import IndexPatternPicker from './components/IndexPatternPicker';
+import CompareView, { CompareResult } from './components/CompareView';
+import PatternsView, { LogPattern, PatternsResult } from './components/PatternsView';
+import { validateQuery } from './utils/queryValidator';
+import { SavedSearch, SavedSearchState, declineLegacyImport, isLegacyImportDeclined, keepLegacyBookmarks, readLegacyBookmarks } from './utils/savedSearches';
+import { splitIndexPatterns } from './utils/indexPatterns';
+import { patternToQuery } from './utils/logPatterns';
+import { COMPARE_BASELINES, CompareBaseline, getBaselineRange } from './utils/compareRanges';
+import { SearchLinkState, SharedSearch, decodeSearchLink, encodeSearchLink, toSharedSearch } from './utils/searchLink';
+import {
+  BuilderChip,
+  BuilderGroup,
+  buildClause,
+  buildDslFromGroup,
+  buildQueryFromGroup,
+  createBuilderGroup,
+  isBuilderGroup,
+  moveBuilderNode,
+  parseQueryToGroup,
+  removeBuilderNode,
+  updateBuilderGroup,
+  withNodeId
+} from './utils/queryBuilder';
 
 interface SearchResult {
   _id: string;
@@ -26,6 +56,7 @@ interface IndexPatternSetting {
   timeField: string;
   searchFields: string[];
   searchMode?: 'relevant' | 'exact' | '';
+  columns?: string[];
 }
 
 interface AppConfig {
@@ -51,6 +82,8 @@ interface TeamBookmark {
   id: string;
   name: string;
   query: string;
+  team?: string;
+  state?: SavedSearchState;
   createdAt?: string;
 }
 
@@ -89,17 +122,50 @@ interface WeeklyEngagement {
   days: { date: string; count: number; percent: number }[];
 }
 
-interface BuilderChip {
-  field: string;
-  operator: 'is' | 'contains' | 'exists' | 'not_exists';
-  value?: string;
-}
-
 interface PinnedFilter {
   field: string;
   value: string;
 }
 
+interface TimeRange {
+  start: Date;
+  end: Date;
+}
+
+const HISTOGRAM_INTERVALS = [
+  { label: '1s', ms: 1000 },
+  { label: '5s', ms: 5 * 1000 },
+  { label: '10s', ms: 10 * 1000 },
+  { label: '30s', ms: 30 * 1000 },
+  { label: '1m', ms: 60 * 1000 },
+  { label: '5m', ms: 5 * 60 * 1000 },
+  { label: '10m', ms: 10 * 60 * 1000 },
+  { label: '30m', ms: 30 * 60 * 1000 },
+  { label: '1h', ms: 60 * 60 * 1000 },
+  { label: '3h', ms: 3 * 60 * 60 * 1000 },
+  { label: '12h', ms: 12 * 60 * 60 * 1000 },
+  { label: '1d', ms: 24 * 60 * 60 * 1000 },
+];
+
+const LIVE_POLL_MS = 5000;
+const LIVE_MAX_RESULTS = 500;
+
+const pickHistogramInterval = (range: TimeRange) => {
+  const span = Math.max(1000, range.end.getTime() - range.start.getTime());
+  return HISTOGRAM_INTERVALS.find((interval) => span / interval.ms <= 100) || HISTOGRAM_INTERVALS[HISTOGRAM_INTERVALS.length - 1];
+};
+
+interface RuleDraft {
+  name: string;
+  query: string;
+  indexPattern: string;
+  comparator: 'above' | 'below';
+  threshold: number;
+  windowMinutes: number;
+  team: string;
+  channelIds: string[];
+}
+
 function LogSearchApp({
   user,
   onLogout,
@@ -128,10 +194,31 @@ function LogSearchApp({
   const [searchTip, setSearchTip] = useState<string | null>(null);
   const [recentSearches, setRecentSearches] = useState<string[]>([]);
   const [searchMode, setSearchMode] = useState<'relevant' | 'exact'>('relevant');
+  const [queryLanguage, setQueryLanguage] = useState<'lucene' | 'ppl' | 'sql'>(() => {
+    const stored = localStorage.getItem('queryLanguage');
+    return stored === 'ppl' || stored === 'sql' ? stored : 'lucene';
+  });
+  const [sqlResult, setSqlResult] = useState<SqlResult | null>(null);
   const [darkMode, setDarkMode] = useState(false);
   const [darkModeUserSet, setDarkModeUserSet] = useState(false);
   const [highlightScope, setHighlightScope] = useState<'message' | 'json'>('message');
-  const [bookmarks, setBookmarks] = useState<{ name: string; query: string }[]>([]);
+  const [bookmarks, setBookmarks] = useState<SavedSearch[]>([]);
+  const [pendingSearch, setPendingSearch] = useState<string | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const location = useLocation();
+  // Search from a short link (router state) or encoded in the URL on arrival;
+  // consumed once the config has loaded.
+  const initialLinkRef = useRef<SharedSearch | null>((() => {
+    const shared = (location.state as { sharedSearch?: SharedSearch } | null)?.sharedSearch;
+    if (shared) return shared;
+    const link = decodeSearchLink(searchParams);
+    return link ? toSharedSearch(link) : null;
+  })());
+  // Page and hit a deep link points at, reached after its first page loads.
+  const linkTargetRef = useRef<{ page: number; hit: string | null } | null>(null);
+  const [configLoaded, setConfigLoaded] = useState(false);
+  const [freezeLinkTime, setFreezeLinkTime] = useState(false);
+  const [shortLinkExpiryDays, setShortLinkExpiryDays] = useState(() => Number(localStorage.getItem('shortLinkExpiryDays')) || 0);
   const [teamBookmarks, setTeamBookmarks] = useState<TeamBookmark[]>([]);
   const [currentTime, setCurrentTime] = useState<string>('');
   const [timeOffsetMs, setTimeOffsetMs] = useState(0);
@@ -145,6 +232,11 @@ function LogSearchApp({
   const [fieldExplorerTopN, setFieldExplorerTopN] = useState<number>(10);
   const [fieldExplorerData, setFieldExplorerData] = useState<FieldExplorerField[]>([]);
   const [fieldExplorerLoading, setFieldExplorerLoading] = useState(false);
+  const [compareMode, setCompareMode] = useState(false);
+  const [compareBaseline, setCompareBaseline] = useState<CompareBaseline>('1d');
+  const [compareResult, setCompareResult] = useState<CompareResult | null>(null);
+  const [compareLoading, setCompareLoading] = useState(false);
+  const [compareError, setCompareError] = useState<string | null>(null);
   const [fieldGlossary, setFieldGlossary] = useState<Record<string, { label?: string; description?: string; examples?: string[] }>>({});
   const [highlightRules, setHighlightRules] = useState<HighlightRule[]>([]);
   const [brandName, setBrandName] = useState('');
@@ -166,12 +258,49 @@ function LogSearchApp({
   const [builderField, setBuilderField] = useState('message');
   const [builderOp, setBuilderOp] = useState<BuilderChip['operator']>('contains');
   const [builderValue, setBuilderValue] = useState('');
-  const [builderChips, setBuilderChips] = useState<BuilderChip[]>([]);
+  const [builderValueTo, setBuilderValueTo] = useState('');
+  const [oneOfSelection, setOneOfSelection] = useState<Record<string, string[]>>({});
+  const [builderTree, setBuilderTree] = useState<BuilderGroup>(() => createBuilderGroup());
+  const [builderTargetId, setBuilderTargetId] = useState<string | null>(null);
+  const builderDragRef = useRef<string | null>(null);
   const [builderActive, setBuilderActive] = useState(false);
-  const [builderJoin, setBuilderJoin] = useState<'AND' | 'OR'>('AND');
+  const [builderDsl, setBuilderDsl] = useState(() => localStorage.getItem('builderDsl') === 'true');
   const [quickFilterJoin, setQuickFilterJoin] = useState<'AND' | 'OR'>('AND');
   const [pinnedFilters, setPinnedFilters] = useState<PinnedFilter[]>([]);
   const [expandedResults, setExpandedResults] = useState<Record<string, boolean>>({});
+  const [alertEvents, setAlertEvents] = useState<AlertEvent[]>([]);
+  const [alertSnoozes, setAlertSnoozes] = useState<RuleSnooze[]>([]);
+  const [showAlerts, setShowAlerts] = useState(() => localStorage.getItem('showAlerts') === 'true');
+  const [histogram, setHistogram] = useState<{ buckets: HistogramBucket[]; intervalMs: number; intervalLabel: string } | null>(null);
+  const [liveMode, setLiveMode] = useState(false);
+  const [livePaused, setLivePaused] = useState(false);
+  const [liveRate, setLiveRate] = useState(0);
+  const [liveNotice, setLiveNotice] = useState<string | null>(null);
+  const liveStateRef = useRef<{ query: string; clause: Record<string, any> | null; indexPattern: string; since: string; seen: Set<string>; arrivals: { time: number; count: number }[] } | null>(null);
+  const [ruleDraft, setRuleDraft] = useState<RuleDraft | null>(null);
+  const [ruleChannels, setRuleChannels] = useState<{ id: string; name: string; type: string }[]>([]);
+  const [ruleSaving, setRuleSaving] = useState(false);
+  const [contextView, setContextView] = useState<{ hit: SearchResult; sameField: string; size: number } | null>(null);
+  const [contextData, setContextData] = useState<ContextResponse | null>(null);
+  const [contextLoading, setContextLoading] = useState(false);
+  const [contextError, setContextError] = useState<string | null>(null);
+  const [pageNotice, setPageNotice] = useState<string | null>(null);
+  const [resultsView, setResultsView] = useState<'list' | 'table' | 'patterns'>(() => (localStorage.getItem('resultsView') === 'table' ? 'table' : 'list'));
+  const [patternsResult, setPatternsResult] = useState<PatternsResult | null>(null);
+  const [patternsLoading, setPatternsLoading] = useState(false);
+  const [patternsError, setPatternsError] = useState<string | null>(null);
+  // Search the current patterns were computed for; paging keeps the same one.
+  const patternsCursorRef = useRef<object | null>(null);
+  const [indexFields, setIndexFields] = useState<IndexField[]>([]);
+  const [tableColumns, setTableColumns] = useState<TableColumn[]>([]);
+  const [tableSort, setTableSort] = useState<TableSort | null>(null);
+  const [fieldStatsTarget, setFieldStatsTarget] = useState<{ hitId: string; field: string } | null>(null);
+  const [fieldStats, setFieldStats] = useState<FieldStats | null>(null);
+  const [fieldStatsLoading, setFieldStatsLoading] = useState(false);
+  const [fieldStatsError, setFieldStatsError] = useState<string | null>(null);
+  // cursors[n] is the search_after value that opens page n + 1; page 1 has none.
+  // A PIT is asked for once, when the user first pages past page 1.
+  const searchCursorRef = useRef<{ query: string; clause: Record<string, any> | null; indexPattern: string; range: TimeRange; pitId: string | null; pitRequested: boolean; cursors: (unknown[] | null)[] } | null>(null);
 
   // Clock
   useEffect(() => {
@@ -205,7 +334,6 @@ function LogSearchApp({
     const savedDark = savedDarkRaw === 'true';
     const savedDarkUserSet = localStorage.getItem('darkModeUserSet') === 'true';
     const savedPreset = localStorage.getItem('timePreset') || '1h';
-    const savedBookmarks = JSON.parse(localStorage.getItem('bookmarks') || '[]');
     const savedRecents = JSON.parse(localStorage.getItem('recentSearches') || '[]');
     const savedFullResults = localStorage.getItem('showFullResults') === 'true';
     const savedRememberIndex = localStorage.getItem('rememberIndexPattern') === 'true';
@@ -216,7 +344,6 @@ function LogSearchApp({
       setDarkModeUserSet(true);
     }
     setTimePreset(savedPreset);
-    setBookmarks(savedBookmarks);
     setRecentSearches(savedRecents);
     setShowFullResults(savedFullResults);
     setRememberIndex(savedRememberIndex);
@@ -227,7 +354,9 @@ function LogSearchApp({
       try {
         const response = await axios.get<AppConfig>('/api/config');
         const config = response.data;
-        if (savedRememberIndex && savedIndex) {
+        if (initialLinkRef.current?.state?.indexPattern) {
+          // The deep link decides the index pattern.
+        } else if (savedRememberIndex && savedIndex) {
           setIndexPattern(savedIndex);
         } else if (config.defaultIndexPattern) {
           setIndexPattern(config.defaultIndexPattern);
@@ -263,6 +392,8 @@ function LogSearchApp({
           return;
         }
         console.warn('Failed to load config defaults.');
+      } finally {
+        setConfigLoaded(true);
       }
     };
 
@@ -291,6 +422,37 @@ function LogSearchApp({
       }
     };
 
+    // Personal saved searches live on the server; bookmarks still in this
+    // browser's localStorage are uploaded once and then dropped. With accounts
+    // the browser may be shared, so the user is asked first. Names that are
+    // already saved keep the server copy; failed uploads are retried next load.
+    const loadSavedSearches = async () => {
+      try {
+        const legacy = readLegacyBookmarks();
+        const username = authEnabled ? user?.username || '' : '';
+        if (legacy.length > 0 && !(username && isLegacyImportDeclined(username))) {
+          if (!username || confirm(`Import ${legacy.length} bookmark${legacy.length === 1 ? '' : 's'} saved in this browser into your saved searches?`)) {
+            const uploads = await Promise.allSettled(legacy.map((bookmark) => axios.post('/api/saved-searches', bookmark)));
+            keepLegacyBookmarks(legacy.filter((_, idx) => {
+              const upload = uploads[idx];
+              if (upload.status === 'fulfilled') return false;
+              return !(axios.isAxiosError(upload.reason) && upload.reason.response?.status === 409);
+            }));
+          } else {
+            declineLegacyImport(username);
+          }
+        }
+        const response = await axios.get<SavedSearch[]>('/api/saved-searches');
+        setBookmarks(response.data);
+      } catch (err) {
+        if (axios.isAxiosError(err) && err.response?.status === 401) {
+          if (authEnabled) onLogout();
+          return;
+        }
+        console.warn('Failed to load saved searches.');
+      }
+    };
+
     const loadFeatureAccess = async () => {
       try {
         const defaultAccess = { exports: true, bookmarks: true, rules: true, queryBuilder: true, limitTo7Days: false, piiUnmasked: false, showFullResults: false };
@@ -311,6 +473,7 @@ function LogSearchApp({
     loadConfig();
     loadServerTime();
     loadTeamBookmarks();
+    loadSavedSearches();
     loadFeatureAccess();
     axios.get<WeeklyEngagement>('/api/metrics-user-weekly')
       .then((res) => setWeeklyEngagement(res.data))
@@ -319,6 +482,57 @@ function LogSearchApp({
     return () => clearInterval(syncTimer);
   }, []);
 
+  const loadAlerts = async () => {
+    try {
+      const response = await axios.get<{ events: AlertEvent[]; snoozes: RuleSnooze[] }>('/api/alerts', { params: { limit: 50 } });
+      setAlertEvents(response.data.events || []);
+      setAlertSnoozes(response.data.snoozes || []);
+    } catch (err) {
+      if (axios.isAxiosError(err) && err.response?.status === 401) {
+        if (authEnabled) onLogout();
+        return;
+      }
+      console.warn('Failed to load alerts.');
+    }
+  };
+
+  useEffect(() => {
+    if (!featureAccess.rules) return;
+    loadAlerts();
+    const alertTimer = setInterval(loadAlerts, 5 * 60 * 1000);
+    return () => clearInterval(alertTimer);
+  }, [featureAccess.rules]);
+
+  useEffect(() => {
+    localStorage.setItem('showAlerts', showAlerts ? 'true' : 'false');
+  }, [showAlerts]);
+
+  const acknowledgeAlert = async (id: string) => {
+    try {
+      await axios.post(`/api/alerts/${encodeURIComponent(id)}/ack`);
+      await loadAlerts();
+    } catch (err) {
+      if (axios.isAxiosError(err) && err.response?.status === 401) {
+        if (authEnabled) onLogout();
+        return;
+      }
+      alert('Failed to acknowledge alert.');
+    }
+  };
+
+  const snoozeAlertRule = async (ruleId: string, until: string | null) => {
+    try {
+      await axios.post('/api/alerts/snooze', { ruleId, until });
+      await loadAlerts();
+    } catch (err) {
+      if (axios.isAxiosError(err) && err.response?.status === 401) {
+        if (authEnabled) onLogout();
+        return;
+      }
+      alert('Failed to snooze rule.');
+    }
+  };
+
   useEffect(() => {
     if (darkMode) {
       document.documentElement.classList.add('dark');
@@ -333,7 +547,8 @@ function LogSearchApp({
 
   useEffect(() => {
     if (!featureAccess.queryBuilder) {
-      setBuilderChips([]);
+      setBuilderTree(createBuilderGroup());
+      setBuilderTargetId(null);
       setBuilderActive(false);
       setBuilderValue('');
     }
@@ -396,6 +611,19 @@ function LogSearchApp({
   };
 
   const handleSearch = async (searchQuery: string) => {
+    const blocking = getQueryIssues(searchQuery).filter((issue) => issue.severity === 'error');
+    if (blocking.length > 0) {
+      setSearchTip(`Search not sent: ${blocking[0].message}`);
+      return;
+    }
+    if (queryLanguage !== 'lucene') {
+      if (!searchQuery.trim()) return;
+      saveRecentSearch(searchQuery);
+      setRecentSearches(getRecentSearches());
+      stopLiveTail();
+      await runSqlQuery(searchQuery);
+      return;
+    }
     const emptyQuery = !searchQuery.trim();
     const rangeMs = endDate.getTime() - startDate.getTime();
     const oneDayMs = 24 * 60 * 60 * 1000;
@@ -408,9 +636,49 @@ function LogSearchApp({
       setRecentSearches(getRecentSearches());
     }
     setCurrentPage(1);
+    stopLiveTail();
     await fetchResults(searchQuery, 1, indexPattern);
   };
 
+  const runSqlQuery = async (q: string) => {
+    setLoading(true);
+    setSearchError(null);
+    setSearchTip(null);
+    setResults([]);
+    setTotalHits(0);
+    setHistogram(null);
+    try {
+      const response = await axios.post<SqlResult>('/api/sql', { language: queryLanguage, query: q });
+      setSqlResult(response.data);
+    } catch (err) {
+      console.error(err);
+      setSqlResult(null);
+      if (axios.isAxiosError(err) && err.response?.status === 401) {
+        if (authEnabled) onLogout();
+        return;
+      }
+      if (axios.isAxiosError(err) && err.response?.data?.error) {
+        const detail = err.response.data.detail;
+        setSearchError(detail
+          ? `${err.response.data.error}: ${typeof detail === 'string' ? detail : JSON.stringify(detail)}`
+          : String(err.response.data.error));
+        setSearchTip(queryLanguage === 'ppl'
+          ? 'PPL queries start with source=<index>, e.g. source=logs-* | where level = \'error\' | head 100.'
+          : 'SQL queries need FROM <index>, e.g. SELECT * FROM logs-* LIMIT 100.');
+        return;
+      }
+      setSearchError('Query failed. Check console.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleQueryLanguageChange = (language: 'lucene' | 'ppl' | 'sql') => {
+    setQueryLanguage(language);
+    setSqlResult(null);
+    localStorage.setItem('queryLanguage', language);
+  };
+
   const handleResultViewToggle = () => {
     setShowFullResults((prev) => {
       const next = !prev;
@@ -431,38 +699,71 @@ function LogSearchApp({
     return saved ? JSON.parse(saved) : [];
   };
 
-  const fetchResults = async (q: string, page: number, indexPat: string) => {
+  const fetchResults = async (q: string, page: number, indexPat: string, range: TimeRange = { start: startDate, end: endDate }) => {
+    if (page === 1) {
+      const previousPit = searchCursorRef.current?.pitId;
+      if (previousPit) axios.post('/api/search/pit/close', { id: previousPit }).catch(() => {});
+      searchCursorRef.current = { query: q, clause: resolveSearchClause(q, indexPat), indexPattern: indexPat, range, pitId: null, pitRequested: false, cursors: [null] };
+    }
+    const cursorState = searchCursorRef.current;
+    const searchAfter = cursorState?.cursors[page - 1];
+    if (!cursorState || searchAfter === undefined) return;
     setLoading(true);
     setSearchError(null);
     setSearchTip(null);
+    setPageNotice(null);
     try {
       const pageSize = 100;
-      const rangeFilter = buildTimeRangeFilter(indexPat);
+      const interval = pickHistogramInterval(range);
+      const timeFields = getActiveTimeFields(indexPat);
+      // Hits with equal sort values would be skipped or repeated across pages
+      // without a unique last key. The PIT only opens after page 1, whose cursor
+      // must stay valid inside it, so the key is _id rather than _shard_doc.
+      const tiebreaker = { _id: 'asc' };
       const body: any = {
-        query: {
-          bool: {
-            must: [],
-            filter: [rangeFilter]
-          }
-        },
+        query: buildSearchQuery(cursorState.clause, indexPat, range),
         size: pageSize,
-        from: (page - 1) * pageSize,
-        sort: [
-          { timestamp: { order: 'desc', unmapped_type: 'date' } },
-          { '@timestamp': { order: 'desc', unmapped_type: 'date' } }
-        ]
+        track_total_hits: true,
+        sort: tableSort
+          ? [
+            { [tableSort.sortField]: tableSort.type === 'conflict' ? { order: tableSort.order } : { order: tableSort.order, unmapped_type: tableSort.type } },
+            tiebreaker
+          ]
+          : [
+            { timestamp: { order: 'desc', unmapped_type: 'date' } },
+            { '@timestamp': { order: 'desc', unmapped_type: 'date' } },
+            tiebreaker
+          ]
       };
-
-      if (q.trim()) {
-        body.query.bool.must.push(buildQueryClause(indexPat, q));
-      }
-
-      if (body.query.bool.must.length === 0) {
-        body.query = { match_all: {} };
+      if (page === 1) {
+        body.aggs = buildHistogramAggs(timeFields, range, interval.ms);
+      } else {
+        body.search_after = searchAfter;
+        if (cursorState.pitId) {
+          body.pit = { id: cursorState.pitId };
+        } else if (!cursorState.pitRequested) {
+          body.pit = {};
+          cursorState.pitRequested = true;
+        }
       }
 
       const response = await axios.post(`/api/search/${indexPat}/_search`, body);
-      setResults(response.data.hits.hits);
+      if (searchCursorRef.current !== cursorState) return;
+      const hits: (SearchResult & { sort?: unknown[] })[] = response.data.hits.hits;
+      // The cluster may hand back a new PIT id on any page.
+      if (response.data?.pit_id) cursorState.pitId = response.data.pit_id;
+      const lastSort = hits[hits.length - 1]?.sort;
+      if (hits.length === pageSize && lastSort) cursorState.cursors[page] = lastSort;
+      setResults(hits);
+      if (page === 1) {
+        fetchFieldExplorer(range, indexPat);
+        if (compareMode) fetchComparison();
+        setHistogram({
+          buckets: readHistogramBuckets(response.data?.aggregations, timeFields.length),
+          intervalMs: interval.ms,
+          intervalLabel: interval.label
+        });
+      }
       const totalRaw = response.data?.hits?.total;
       const hitsTotal = typeof totalRaw === 'number' ? totalRaw : (totalRaw?.value ?? 0);
       setTotalHits(hitsTotal);
@@ -479,9 +780,16 @@ function LogSearchApp({
         if (authEnabled) onLogout();
         return;
       }
+      if (axios.isAxiosError(err) && err.response?.status === 410) {
+        setResults([]);
+        setSearchError(String(err.response.data?.error || 'Search session expired.'));
+        setSearchTip('Run the search again to page through fresh results.');
+        return;
+      }
       if (axios.isAxiosError(err) && err.response?.data?.detail) {
         setResults([]);
         setTotalHits(0);
+        setHistogram(null);
         setSearchError(String(err.response.data.detail));
         setSearchTip('Check your query syntax or try Exact mode.');
         return;
@@ -489,6 +797,7 @@ function LogSearchApp({
       if (axios.isAxiosError(err) && err.response?.data?.error) {
         setResults([]);
         setTotalHits(0);
+        setHistogram(null);
         setSearchError(String(err.response.data.error));
         setSearchTip('Check your query syntax or try Exact mode.');
         return;
@@ -496,6 +805,7 @@ function LogSearchApp({
       if (axios.isAxiosError(err) && err.response?.status === 404) {
         setResults([]);
         setTotalHits(0);
+        setHistogram(null);
         setSearchError('No logs found for that query/time range.');
         setSearchTip('Try widening the time range or simplifying the query.');
         return;
@@ -503,12 +813,14 @@ function LogSearchApp({
       if (axios.isAxiosError(err) && err.response?.status && err.response.status >= 400) {
         setResults([]);
         setTotalHits(0);
+        setHistogram(null);
         setSearchError(`Search error (${err.response.status}).`);
         setSearchTip('Check your query syntax or try Exact mode.');
         return;
       }
       setResults([]);
       setTotalHits(0);
+      setHistogram(null);
       setSearchError('Search failed. Check console.');
       setSearchTip('Try again in a moment or narrow the time range.');
     } finally {
@@ -518,14 +830,25 @@ function LogSearchApp({
 
   const getIndexPatternSetting = (pattern: string) => indexPatternSettings.find((entry) => entry.pattern === pattern);
 
+  // Multi-pattern targets merge the time fields of every pattern.
   const getActiveTimeFields = (pattern: string) => {
-    const setting = getIndexPatternSetting(pattern);
-    return setting?.timeField ? [setting.timeField] : ['timestamp', '@timestamp'];
+    const fields = splitIndexPatterns(pattern).flatMap((part) => {
+      const setting = getIndexPatternSetting(part);
+      return setting?.timeField ? [setting.timeField] : ['timestamp', '@timestamp'];
+    });
+    const unique = fields.filter((field, idx) => fields.indexOf(field) === idx);
+    return unique.length > 0 ? unique : ['timestamp', '@timestamp'];
   };
 
   const getActiveSearchFields = (pattern: string) => {
-    const setting = getIndexPatternSetting(pattern);
-    return Array.isArray(setting?.searchFields) ? setting?.searchFields.filter((field) => field.trim().length > 0) : [];
+    const perPattern = splitIndexPatterns(pattern).map((part) => {
+      const setting = getIndexPatternSetting(part);
+      return Array.isArray(setting?.searchFields) ? setting.searchFields.filter((field) => field.trim().length > 0) : [];
+    });
+    if (perPattern.every((fields) => fields.length === 0)) return [];
+    // Patterns without configured fields search `message`; keep that when mixing.
+    const fields = perPattern.flat().concat(perPattern.some((list) => list.length === 0) ? ['message'] : []);
+    return fields.filter((field, idx) => fields.indexOf(field) === idx);
   };
 
   const getStoredSearchMode = (pattern: string) => {
@@ -542,13 +865,13 @@ function LogSearchApp({
     return null;
   };
 
-  const buildTimeRangeFilter = (pattern: string) => {
+  const buildTimeRangeFilter = (pattern: string, range: TimeRange = { start: startDate, end: endDate }) => {
     const fields = getActiveTimeFields(pattern);
     const rangeFor = (field: string) => ({
       range: {
         [field]: {
-          gte: formatISO(startDate),
-          lte: formatISO(endDate),
+          gte: formatISO(range.start),
+          lte: formatISO(range.end),
           format: 'strict_date_optional_time'
         }
       }
@@ -564,6 +887,62 @@ function LogSearchApp({
     };
   };
 
+  // One date_histogram per candidate time field. Later fields only count documents
+  // missing the earlier ones, matching the bool/should time filter above.
+  const buildHistogramAggs = (fields: string[], range: TimeRange, intervalMs: number) => {
+    const aggs: Record<string, any> = {};
+    fields.forEach((field, idx) => {
+      const histogramAgg = {
+        date_histogram: {
+          field,
+          fixed_interval: `${Math.round(intervalMs / 1000)}s`,
+          min_doc_count: 0,
+          extended_bounds: { min: range.start.getTime(), max: range.end.getTime() }
+        }
+      };
+      const earlier = fields.slice(0, idx);
+      aggs[`timeline_${idx}`] = earlier.length === 0
+        ? histogramAgg
+        : {
+          filter: { bool: { must_not: earlier.map((name) => ({ exists: { field: name } })) } },
+          aggs: { histogram: histogramAgg }
+        };
+    });
+    return aggs;
+  };
+
+  const readHistogramBuckets = (aggregations: any, fieldCount: number): HistogramBucket[] => {
+    const counts = new Map<number, number>();
+    for (let idx = 0; idx < fieldCount; idx += 1) {
+      const agg = aggregations?.[`timeline_${idx}`];
+      const buckets = idx === 0 ? agg?.buckets : agg?.histogram?.buckets;
+      (buckets || []).forEach((bucket: { key: number; doc_count: number }) => {
+        counts.set(bucket.key, (counts.get(bucket.key) || 0) + bucket.doc_count);
+      });
+    }
+    return Array.from(counts.entries())
+      .sort((a, b) => a[0] - b[0])
+      .map(([key, count]) => ({ key, count }));
+  };
+
+  const goToPage = (page: number) => {
+    const cursorState = searchCursorRef.current;
+    if (!cursorState || page === currentPage) return;
+    if (cursorState.cursors[page - 1] === undefined) {
+      const reachable = cursorState.cursors.length;
+      setPageNotice(`Page ${page} can't be opened directly: results are read in order, so only pages up to ${reachable} are reachable right now. Use Next from page ${reachable}, or narrow the time range or query.`);
+      return;
+    }
+    setCurrentPage(page);
+    fetchResults(cursorState.query, page, cursorState.indexPattern, cursorState.range);
+  };
+
+  const narrowTimeRange = (start: Date, end: Date) => {
+    handleCustomDateChange([start, end]);
+    setCurrentPage(1);
+    fetchResults(query, 1, indexPattern, { start, end });
+  };
+
   const buildQueryStringClause = (pattern: string, q: string) => {
     const fields = getActiveSearchFields(pattern);
     return fields.length > 0
@@ -585,8 +964,46 @@ function LogSearchApp({
     return buildQueryStringClause(pattern, q);
   };
 
+  // Exact-value field for structured builder clauses: the field itself when it is
+  // aggregatable, otherwise its keyword sub-field. Without mappings, fall back to
+  // match_phrase, which still matches keyword fields exactly.
+  const resolveBuilderField = (field: string) => {
+    const info = indexFields.find((entry) => entry.name === field);
+    if (info?.aggregatable) return { keyword: field };
+    const keyword = indexFields.find((entry) => entry.name === `${field}.keyword`);
+    return { keyword: keyword?.aggregatable ? keyword.name : null };
+  };
+
+  // The builder's DSL is only used while the search box still holds the
+  // builder's own output; anything typed or loaded from a bookmark wins.
+  const getBuilderDsl = (q: string) => {
+    if (!builderDsl || !builderActive || builderTree.children.length === 0) return null;
+    if (q !== buildQueryFromGroup(builderTree)) return null;
+    return buildDslFromGroup(builderTree, resolveBuilderField);
+  };
+
+  const resolveSearchClause = (q: string, pattern: string) => {
+    if (!q.trim()) return null;
+    return getBuilderDsl(q) || buildQueryClause(pattern, q);
+  };
+
+  const handleBuilderDslChange = (enabled: boolean) => {
+    setBuilderDsl(enabled);
+    localStorage.setItem('builderDsl', String(enabled));
+  };
+
+  // Exact-mode plain text is sent as a phrase, not parsed as query_string.
+  const getQueryIssues = (q: string) => {
+    if (queryLanguage !== 'lucene') return [];
+    if (searchMode === 'exact' && !isAdvancedQuery(q)) return [];
+    return validateQuery(q, indexFields.map((field) => field.name));
+  };
+
+  const queryIssues = useMemo(() => getQueryIssues(query), [query, searchMode, queryLanguage, indexFields]);
+
   const handleFormSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    linkTargetRef.current = null;
     handleSearch(query);
   };
 
@@ -606,13 +1023,14 @@ function LogSearchApp({
     handleSearch(q);
   };
 
-  const handleIndexChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-    const newIndex = e.target.value;
+  const handleIndexChange = (newIndex: string) => {
     setIndexPattern(newIndex);
     if (rememberIndex) {
       localStorage.setItem('indexPattern', newIndex);
     }
-    if (query.trim()) fetchResults(query, currentPage, newIndex);
+    stopLiveTail();
+    setCurrentPage(1);
+    if (query.trim()) fetchResults(query, 1, newIndex);
   };
 
   const handleRememberIndexToggle = (nextValue: boolean) => {
@@ -636,17 +1054,34 @@ function LogSearchApp({
     }
   };
 
-  const fetchFieldExplorer = async () => {
+  // Same query object fetchResults sends, so drill-downs (Field Explorer, stats)
+  // count exactly the hits on screen.
+  const buildSearchQuery = (clause: Record<string, any> | null, indexPat: string, range: TimeRange) => {
+    if (!clause) return { match_all: {} };
+    return {
+      bool: {
+        must: [clause],
+        filter: [buildTimeRangeFilter(indexPat, range)]
+      }
+    };
+  };
+
+  const fetchFieldExplorer = async (range: TimeRange = { start: startDate, end: endDate }, pattern = indexPattern) => {
     if (!fieldExplorerFields || fieldExplorerFields.length === 0) {
       setFieldExplorerData([]);
       return;
     }
+    const cursorState = searchCursorRef.current;
+    const searchQuery = cursorState && cursorState.indexPattern === pattern && cursorState.clause
+      ? buildSearchQuery(cursorState.clause, pattern, range)
+      : null;
     setFieldExplorerLoading(true);
     try {
       const response = await axios.post<{ fields: FieldExplorerField[] }>('/api/field-explorer', {
-        indexPattern,
-        start: formatISO(startDate),
-        end: formatISO(endDate),
+        indexPattern: pattern,
+        start: formatISO(range.start),
+        end: formatISO(range.end),
+        query: searchQuery,
         fields: fieldExplorerFields,
         topN: fieldExplorerTopN
       });
@@ -666,72 +1101,313 @@ function LogSearchApp({
     fetchFieldExplorer();
   }, [indexPattern, startDate, endDate, fieldExplorerFields, fieldExplorerTopN]);
 
+  // Runs the committed search over its range and the chosen baseline range.
+  const fetchComparison = async () => {
+    const cursorState = searchCursorRef.current;
+    if (!cursorState) return;
+    const baselineRange = getBaselineRange(cursorState.range, compareBaseline);
+    setCompareLoading(true);
+    setCompareError(null);
+    try {
+      const response = await axios.post<CompareResult>('/api/compare', {
+        indexPattern: cursorState.indexPattern,
+        query: cursorState.clause,
+        ranges: [
+          { start: formatISO(cursorState.range.start), end: formatISO(cursorState.range.end) },
+          { start: formatISO(baselineRange.start), end: formatISO(baselineRange.end) }
+        ],
+        intervalMs: pickHistogramInterval(cursorState.range).ms,
+        fields: fieldExplorerFields,
+        topN: fieldExplorerTopN
+      });
+      if (searchCursorRef.current !== cursorState) return;
+      setCompareResult(response.data);
+    } catch (err) {
+      if (axios.isAxiosError(err) && err.response?.status === 401) {
+        if (authEnabled) onLogout();
+        return;
+      }
+      setCompareResult(null);
+      setCompareError(axios.isAxiosError(err) && err.response?.data?.error ? String(err.response.data.error) : 'Comparison failed.');
+    } finally {
+      setCompareLoading(false);
+    }
+  };
+
   useEffect(() => {
-    axios.get<Record<string, { label?: string; description?: string; examples?: string[] }>>('/api/field-glossary')
-      .then((res) => setFieldGlossary(res.data || {}))
-      .catch(() => setFieldGlossary({}));
-  }, []);
+    if (compareMode && searchCursorRef.current) {
+      fetchComparison();
+    } else {
+      setCompareResult(null);
+      setCompareError(null);
+    }
+  }, [compareMode, compareBaseline]);
+
+  useEffect(() => {
+    if (!indexPattern) return;
+    let alive = true;
+    axios.get<{ fields: IndexField[] }>(`/api/fields/${indexPattern}`)
+      .then((res) => {
+        if (alive) setIndexFields(res.data?.fields || []);
+      })
+      .catch(() => {
+        if (alive) setIndexFields([]);
+      });
+    return () => {
+      alive = false;
+    };
+  }, [indexPattern]);
+
+  const loadSuggestedValues = async (field: string, prefix: string) => {
+    try {
+      const response = await axios.post<{ values: string[] }>('/api/suggest/values', {
+        indexPattern,
+        field,
+        prefix,
+        start: formatISO(startDate),
+        end: formatISO(endDate)
+      });
+      return response.data?.values || [];
+    } catch (err) {
+      if (axios.isAxiosError(err) && err.response?.status === 401 && authEnabled) onLogout();
+      return [];
+    }
+  };
+
+  const getDefaultTableColumns = (pattern: string): TableColumn[] => {
+    const configured = getIndexPatternSetting(pattern)?.columns || [];
+    const fields = configured.length > 0 ? configured : [getActiveTimeFields(pattern)[0], 'message'];
+    return fields.map((field) => ({ field, width: field === 'message' ? 480 : 180 }));
+  };
+
+  useEffect(() => {
+    try {
+      const stored = JSON.parse(localStorage.getItem(`tableColumns:${indexPattern}`) || 'null');
+      if (Array.isArray(stored) && stored.length > 0) {
+        setTableColumns(stored
+          .filter((column) => column && typeof column.field === 'string')
+          .map((column) => ({ field: column.field, width: Number(column.width) || 180 })));
+        return;
+      }
+    } catch {
+      // Fall back to defaults when the stored column set is unreadable.
+    }
+    setTableColumns(getDefaultTableColumns(indexPattern));
+  }, [indexPattern, indexPatternSettings]);
+
+  useEffect(() => {
+    const cursorState = searchCursorRef.current;
+    if (!cursorState) return;
+    setCurrentPage(1);
+    fetchResults(cursorState.query, 1, cursorState.indexPattern, cursorState.range);
+  }, [tableSort]);
+
+  const updateTableColumns = (columns: TableColumn[]) => {
+    setTableColumns(columns);
+    localStorage.setItem(`tableColumns:${indexPattern}`, JSON.stringify(columns));
+  };
 
-  const formatQueryValue = (value: string) => {
-    if (value === null || value === undefined) return '""';
-    const raw = String(value);
-    if (/^[a-zA-Z0-9_.:-]+$/.test(raw)) return raw;
-    return `"${raw.replace(/"/g, '\\"')}"`;
+  const resetTableColumns = () => {
+    localStorage.removeItem(`tableColumns:${indexPattern}`);
+    setTableColumns(getDefaultTableColumns(indexPattern));
   };
 
-  const formatContainsValue = (value: string) => {
-    const raw = String(value || '');
-    if (/^[a-zA-Z0-9_.:-]+$/.test(raw)) return `*${raw}*`;
-    return `"*${raw.replace(/"/g, '\\"')}*"`;
+  const handleResultsViewChange = (view: 'list' | 'table' | 'patterns') => {
+    setResultsView(view);
+    localStorage.setItem('resultsView', view);
   };
 
-  const buildClause = (chip: BuilderChip) => {
-    if (chip.operator === 'exists') return `_exists_:${chip.field}`;
-    if (chip.operator === 'not_exists') return `NOT _exists_:${chip.field}`;
-    if (chip.operator === 'contains') return `${chip.field}:${formatContainsValue(chip.value || '')}`;
-    return `${chip.field}:${formatQueryValue(chip.value || '')}`;
+  const fetchPatterns = async () => {
+    const cursorState = searchCursorRef.current;
+    if (!cursorState) return;
+    patternsCursorRef.current = cursorState;
+    setPatternsLoading(true);
+    setPatternsError(null);
+    try {
+      const response = await axios.post<PatternsResult>('/api/patterns', {
+        indexPattern: cursorState.indexPattern,
+        query: cursorState.clause,
+        start: formatISO(cursorState.range.start),
+        end: formatISO(cursorState.range.end),
+        field: 'message'
+      });
+      if (searchCursorRef.current !== cursorState) return;
+      setPatternsResult(response.data);
+    } catch (err) {
+      if (axios.isAxiosError(err) && err.response?.status === 401) {
+        if (authEnabled) onLogout();
+        return;
+      }
+      setPatternsResult(null);
+      setPatternsError(axios.isAxiosError(err) && err.response?.data?.error ? String(err.response.data.error) : 'Pattern grouping failed.');
+    } finally {
+      setPatternsLoading(false);
+    }
   };
 
-  const buildQueryFromChips = (chips: BuilderChip[]) => {
-    return chips.map(buildClause).join(` ${builderJoin} `);
+  useEffect(() => {
+    if (resultsView !== 'patterns' || !searchCursorRef.current) return;
+    if (patternsCursorRef.current === searchCursorRef.current) return;
+    fetchPatterns();
+  }, [resultsView, results]);
+
+  const filterToPattern = (pattern: LogPattern) => {
+    const filter = patternToQuery(patternsResult?.field || 'message', pattern.template);
+    if (!filter) {
+      alert('This pattern has no fixed text to filter on.');
+      return;
+    }
+    const base = (searchCursorRef.current?.query || '').trim();
+    const next = base ? `(${base}) AND ${filter}` : filter;
+    handleResultsViewChange('list');
+    setQuery(next);
+    handleSearch(next);
+  };
+
+  useEffect(() => {
+    axios.get<Record<string, { label?: string; description?: string; examples?: string[] }>>('/api/field-glossary')
+      .then((res) => setFieldGlossary(res.data || {}))
+      .catch(() => setFieldGlossary({}));
+  }, []);
+
+  const applyBuilderTree = (next: BuilderGroup) => {
+    setBuilderTree(next);
+    setQuery(buildQueryFromGroup(next));
+    setBuilderActive(true);
   };
 
   const addBuilderChip = () => {
     if (!builderField) return;
-    if ((builderOp === 'is' || builderOp === 'contains') && !builderValue.trim()) {
+    const chip: BuilderChip = { field: builderField, operator: builderOp, value: builderValue.trim() };
+    if (builderOp === 'between') {
+      chip.valueTo = builderValueTo.trim();
+      if (!chip.value || !chip.valueTo) {
+        alert('Enter both ends of the range.');
+        return;
+      }
+    } else if (builderOp === 'one_of') {
+      chip.values = builderValue.split(',').map((item) => item.trim()).filter((item) => item.length > 0);
+      delete chip.value;
+      if (chip.values.length === 0) {
+        alert('Enter one or more comma-separated values.');
+        return;
+      }
+    } else if (builderOp !== 'exists' && builderOp !== 'not_exists' && !chip.value) {
       alert('Enter a value.');
       return;
     }
-    const next = [...builderChips, { field: builderField, operator: builderOp, value: builderValue.trim() }];
-    setBuilderChips(next);
+    const targetId = builderTargetId || builderTree.id;
+    applyBuilderTree(updateBuilderGroup(builderTree, targetId, (group) => ({ ...group, children: [...group.children, withNodeId(chip)] })));
     setBuilderValue('');
-    const built = buildQueryFromChips(next);
-    setQuery(built);
-    setBuilderActive(true);
+    setBuilderValueTo('');
+  };
+
+  // A nested group defaults to the opposite of its parent's join.
+  const addBuilderGroup = (parentId: string) => {
+    const group = createBuilderGroup();
+    setBuilderTree((prev) => updateBuilderGroup(prev, parentId, (parent) => ({
+      ...parent,
+      children: [...parent.children, { ...group, join: parent.join === 'AND' ? 'OR' : 'AND' }]
+    })));
+    setBuilderTargetId(group.id);
+  };
+
+  const removeBuilderNodeById = (id: string) => {
+    if (builderTargetId === id) setBuilderTargetId(null);
+    applyBuilderTree(removeBuilderNode(builderTree, id));
+  };
+
+  const dropBuilderNode = (targetGroupId: string) => {
+    const nodeId = builderDragRef.current;
+    builderDragRef.current = null;
+    if (!nodeId) return;
+    applyBuilderTree(moveBuilderNode(builderTree, nodeId, targetGroupId));
   };
 
-  const removeBuilderChip = (index: number) => {
-    const next = builderChips.filter((_, i) => i !== index);
-    setBuilderChips(next);
-    const built = buildQueryFromChips(next);
-    setQuery(built);
+  const loadBuilderFromQuery = () => {
+    if (!query.trim()) return;
+    const parsed = parseQueryToGroup(query);
+    if (!parsed) {
+      alert('This query cannot be shown in the builder. Free text, implicit operators and AND/OR mixed without parentheses are not supported.');
+      return;
+    }
+    setBuilderTree(parsed);
+    setBuilderTargetId(null);
     setBuilderActive(true);
   };
 
   const clearBuilder = () => {
-    setBuilderChips([]);
+    setBuilderTree(createBuilderGroup());
+    setBuilderTargetId(null);
     setBuilderValue('');
+    setBuilderValueTo('');
     setBuilderActive(false);
   };
 
-  useEffect(() => {
-    if (!builderActive) return;
-    const built = buildQueryFromChips(builderChips);
-    setQuery(built);
-  }, [builderJoin]);
+  const renderBuilderGroup = (group: BuilderGroup, root: boolean): JSX.Element => {
+    const isTarget = (builderTargetId || builderTree.id) === group.id;
+    return (
+      <div
+        key={group.id}
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={(e) => {
+          e.preventDefault();
+          e.stopPropagation();
+          dropBuilderNode(group.id);
+        }}
+        className={`basis-full rounded border p-2 space-y-2 ${isTarget ? 'border-blue-400' : 'border-dashed border-gray-300 dark:border-gray-600'}`}
+      >
+        <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600 dark:text-gray-300">
+          {!root && (
+            <span
+              draggable
+              onDragStart={() => {
+                builderDragRef.current = group.id;
+              }}
+              className="cursor-move text-gray-400"
+              title="Drag group"
+            >
+              ⠿
+            </span>
+          )}
+          <select
+            value={group.join}
+            onChange={(e) => applyBuilderTree(updateBuilderGroup(builderTree, group.id, (target) => ({ ...target, join: e.target.value as 'AND' | 'OR' })))}
+            className="px-2 py-0.5 border rounded dark:bg-gray-800 dark:border-gray-600 dark:text-white"
+          >
+            <option value="AND">AND</option>
+            <option value="OR">OR</option>
+          </select>
+          <button onClick={() => setBuilderTargetId(group.id)} className={isTarget ? 'text-blue-600 dark:text-blue-300' : 'underline'}>
+            {isTarget ? 'New filters go here' : 'Add filters here'}
+          </button>
+          <button onClick={() => addBuilderGroup(group.id)} className="underline">+ Group</button>
+          {!root && (
+            <button onClick={() => removeBuilderNodeById(group.id)} className="text-gray-500 hover:text-gray-700" title="Remove group">✕</button>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {group.children.map((child) => (isBuilderGroup(child) ? renderBuilderGroup(child, false) : (
+            <span
+              key={child.id}
+              draggable
+              onDragStart={() => {
+                builderDragRef.current = child.id || null;
+              }}
+              className="cursor-move text-xs bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 px-2 py-1 rounded inline-flex items-center gap-1"
+            >
+              {buildClause(child)}
+              <button onClick={() => child.id && removeBuilderNodeById(child.id)} className="text-gray-500 hover:text-gray-700">✕</button>
+            </span>
+          )))}
+          {group.children.length === 0 && <span className="text-xs text-gray-400">Drop filters here</span>}
+        </div>
+      </div>
+    );
+  };
 
-  const addQuickFilter = (field: string, value: string) => {
-    const filter = `${field}:${formatQueryValue(value)}`;
+  const addQuickFilter = (field: string, value: string, operator: BuilderChip['operator'] = 'is', extra: Partial<BuilderChip> = {}) => {
+    const filter = buildClause({ field, operator, value, ...extra });
     if (!query.trim()) {
       setQuery(filter);
       return;
@@ -739,6 +1415,37 @@ function LogSearchApp({
     setQuery(`${query.trim()} ${quickFilterJoin} ${filter}`);
   };
 
+  const applyValueAction = (field: string, value: string, action: string) => {
+    if (action === 'is_not' || action === 'gt' || action === 'lt') {
+      addQuickFilter(field, value, action);
+      return;
+    }
+    if (action === 'between') {
+      const upper = prompt(`Upper bound for ${field} (from ${value}):`);
+      if (upper && upper.trim()) addQuickFilter(field, value, 'between', { valueTo: upper.trim() });
+      return;
+    }
+    if (action === 'regex') {
+      const pattern = prompt(`Regular expression for ${field}:`, value.replace(/[.?+*|{}[\]()"\\#@&<>~]/g, '\\$&'));
+      if (pattern && pattern.trim()) addQuickFilter(field, pattern.trim(), 'regex');
+      return;
+    }
+    if (action === 'one_of') {
+      setOneOfSelection((prev) => {
+        const current = prev[field] || [];
+        const next = current.includes(value) ? current.filter((item) => item !== value) : [...current, value];
+        return { ...prev, [field]: next };
+      });
+    }
+  };
+
+  const applyOneOfSelection = (field: string) => {
+    const values = oneOfSelection[field] || [];
+    if (values.length === 0) return;
+    addQuickFilter(field, '', 'one_of', { values });
+    setOneOfSelection((prev) => ({ ...prev, [field]: [] }));
+  };
+
   const getFieldValue = (source: Record<string, any>, field: string) => {
     if (!source || !field) return '';
     if (field === 'message') return source.message || '';
@@ -755,6 +1462,152 @@ function LogSearchApp({
     return current ?? '';
   };
 
+  const getHitTime = (hit: SearchResult, pattern: string) => {
+    for (const field of [...getActiveTimeFields(pattern), 'timestamp', '@timestamp']) {
+      const value = getFieldValue(hit._source || {}, field);
+      if (!value) continue;
+      const time = new Date(value);
+      if (!Number.isNaN(time.getTime())) return time;
+    }
+    return null;
+  };
+
+  const startLiveTail = () => {
+    const newest = results.reduce<Date | null>((acc, hit) => {
+      const time = getHitTime(hit, indexPattern);
+      return time && (!acc || time > acc) ? time : acc;
+    }, null);
+    const cursorState = searchCursorRef.current;
+    liveStateRef.current = {
+      query,
+      clause: cursorState && cursorState.query === query && cursorState.indexPattern === indexPattern
+        ? cursorState.clause
+        : resolveSearchClause(query, indexPattern),
+      indexPattern,
+      since: (newest || new Date()).toISOString(),
+      seen: new Set(results.map((hit) => hit._id)),
+      arrivals: []
+    };
+    setLiveRate(0);
+    setLiveNotice(null);
+    setLivePaused(false);
+    setLiveMode(true);
+  };
+
+  const stopLiveTail = () => {
+    liveStateRef.current = null;
+    setLiveMode(false);
+    setLivePaused(false);
+    setLiveNotice(null);
+  };
+
+  useEffect(() => {
+    if (!liveMode || livePaused) return;
+    let alive = true;
+    const poll = async () => {
+      const state = liveStateRef.current;
+      if (!state) return;
+      try {
+        const response = await axios.post<{ hits: SearchResult[]; latest: string; truncated: boolean }>(
+          `/api/tail/${state.indexPattern}`,
+          { query: state.clause, since: state.since, size: 200 }
+        );
+        if (!alive || liveStateRef.current !== state) return;
+        const fresh = (response.data.hits || []).filter((hit) => !state.seen.has(hit._id));
+        fresh.forEach((hit) => state.seen.add(hit._id));
+        state.since = response.data.latest || state.since;
+        const now = Date.now();
+        state.arrivals = [...state.arrivals.filter((entry) => now - entry.time < 60 * 1000), { time: now, count: fresh.length }];
+        setLiveRate(state.arrivals.reduce((sum, entry) => sum + entry.count, 0));
+        if (fresh.length > 0) {
+          setResults((prev) => [...fresh, ...prev].slice(0, LIVE_MAX_RESULTS));
+          setTotalHits((prev) => prev + fresh.length);
+        }
+        setLiveNotice(response.data.truncated ? 'Logs are arriving faster than the tail can show; only the newest are listed.' : null);
+      } catch (err) {
+        if (axios.isAxiosError(err) && err.response?.status === 401) {
+          if (authEnabled) onLogout();
+          return;
+        }
+        if (!alive) return;
+        const detail = axios.isAxiosError(err) ? (err.response?.data?.detail || err.response?.data?.error) : null;
+        setLiveNotice(detail ? String(detail) : 'Live tail request failed; retrying.');
+      }
+    };
+    poll();
+    const timer = setInterval(poll, LIVE_POLL_MS);
+    return () => {
+      alive = false;
+      clearInterval(timer);
+    };
+  }, [liveMode, livePaused]);
+
+  const loadContext = async (hit: SearchResult, sameField: string, size: number) => {
+    setContextView({ hit, sameField, size });
+    setContextLoading(true);
+    setContextError(null);
+    try {
+      const response = await axios.post<ContextResponse>(`/api/context/${indexPattern}`, {
+        id: hit._id,
+        size,
+        sameField: sameField || undefined
+      });
+      setContextData(response.data);
+    } catch (err) {
+      if (axios.isAxiosError(err) && err.response?.status === 401) {
+        if (authEnabled) onLogout();
+        return;
+      }
+      const detail = axios.isAxiosError(err) ? (err.response?.data?.error || err.response?.data?.detail) : null;
+      setContextData(null);
+      setContextError(detail ? String(detail) : 'Failed to load surrounding logs.');
+    } finally {
+      setContextLoading(false);
+    }
+  };
+
+  const closeContext = () => {
+    setContextView(null);
+    setContextData(null);
+    setContextError(null);
+  };
+
+  const listFieldPaths = (source: Record<string, any>, prefix = ''): string[] => {
+    return Object.entries(source || {}).flatMap(([key, value]) => {
+      const path = prefix ? `${prefix}.${key}` : key;
+      return value && typeof value === 'object' && !Array.isArray(value) ? listFieldPaths(value, path) : [path];
+    });
+  };
+
+  const loadFieldStats = async (hitId: string, field: string) => {
+    const cursorState = searchCursorRef.current;
+    if (!cursorState) return;
+    setFieldStatsTarget({ hitId, field });
+    setFieldStats(null);
+    setFieldStatsLoading(true);
+    setFieldStatsError(null);
+    try {
+      const response = await axios.post<FieldStats>('/api/field-stats', {
+        indexPattern: cursorState.indexPattern,
+        field,
+        start: formatISO(cursorState.range.start),
+        end: formatISO(cursorState.range.end),
+        query: cursorState.clause,
+        topN: fieldExplorerTopN
+      });
+      setFieldStats(response.data);
+    } catch (err) {
+      if (axios.isAxiosError(err) && err.response?.status === 401) {
+        if (authEnabled) onLogout();
+        return;
+      }
+      const detail = axios.isAxiosError(err) ? err.response?.data?.error : null;
+      setFieldStatsError(detail ? String(detail) : 'Failed to load field statistics.');
+    } finally {
+      setFieldStatsLoading(false);
+    }
+  };
+
   const getMatchedHighlightRules = (hit: SearchResult) => {
     if (!highlightRules.length) return [];
     const matches: { rule: HighlightRule; matchedValue: string }[] = [];
@@ -870,24 +1723,204 @@ function LogSearchApp({
     return pinnedFilters.some((p) => p.field === field && p.value === value);
   };
 
-  const addBookmark = () => {
+  const captureSearchState = (): SavedSearchState => ({
+    indexPattern,
+    timePreset,
+    ...(timePreset === 'custom' ? { start: formatISO(startDate), end: formatISO(endDate) } : {}),
+    searchMode,
+    queryLanguage,
+    builder: builderActive && builderTree.children.length > 0 ? builderTree : undefined,
+    pinnedFilters,
+    columns: tableColumns
+  });
+
+  const addBookmark = async () => {
     const name = prompt('Enter a name for this search:');
-    if (name && query.trim()) {
-      const newBookmark = { name, query: query.trim() };
-      const updated = [...bookmarks, newBookmark];
-      setBookmarks(updated);
-      localStorage.setItem('bookmarks', JSON.stringify(updated));
+    if (!name || !name.trim() || !query.trim()) return;
+    const payload = { name: name.trim(), query: query.trim(), state: captureSearchState() };
+    try {
+      let response;
+      try {
+        response = await axios.post<SavedSearch>('/api/saved-searches', payload);
+      } catch (err) {
+        if (!axios.isAxiosError(err) || err.response?.status !== 409) throw err;
+        if (!confirm(`A saved search named "${payload.name}" already exists. Replace it?`)) return;
+        response = await axios.post<SavedSearch>('/api/saved-searches', { ...payload, overwrite: true });
+      }
+      const saved = response.data;
+      setBookmarks((prev) => [...prev.filter((b) => b.id !== saved.id), saved]);
+    } catch (err) {
+      if (axios.isAxiosError(err) && err.response?.status === 401) {
+        if (authEnabled) onLogout();
+        return;
+      }
+      const detail = axios.isAxiosError(err) ? err.response?.data?.error : null;
+      alert(detail ? String(detail) : 'Failed to save search.');
     }
   };
 
-  const runBookmark = (q: string) => {
-    setQuery(q);
-    handleSearch(q);
+  const deleteBookmark = async (bookmark: SavedSearch) => {
+    if (!confirm(`Delete saved search "${bookmark.name}"?`)) return;
+    try {
+      await axios.delete(`/api/saved-searches/${bookmark.id}`);
+      setBookmarks((prev) => prev.filter((b) => b.id !== bookmark.id));
+    } catch (err) {
+      if (axios.isAxiosError(err) && err.response?.status === 401) {
+        if (authEnabled) onLogout();
+        return;
+      }
+      alert('Failed to delete saved search.');
+    }
+  };
+
+  // Restores everything a saved search captured, then searches once the new
+  // state has rendered (handleSearch reads it from the component scope).
+  const runBookmark = (bookmark: { query: string; state?: SavedSearchState }) => {
+    const state = bookmark.state;
+    if (state) {
+      const pattern = state.indexPattern || indexPattern;
+      if (pattern !== indexPattern) {
+        setIndexPattern(pattern);
+        if (rememberIndex) localStorage.setItem('indexPattern', pattern);
+      }
+      if (state.timePreset === 'custom' && state.start && state.end && !featureAccess.limitTo7Days) {
+        setStartDate(new Date(state.start));
+        setEndDate(new Date(state.end));
+        setTimePreset('custom');
+        localStorage.setItem('timePreset', 'custom');
+      } else if (state.timePreset && state.timePreset !== 'custom') {
+        setTimePreset(state.timePreset);
+        localStorage.setItem('timePreset', state.timePreset);
+        applyTimePreset(state.timePreset);
+      }
+      if (state.searchMode) {
+        setSearchMode(state.searchMode);
+        localStorage.setItem(`searchMode:${pattern}`, state.searchMode);
+      }
+      if (state.queryLanguage) {
+        setQueryLanguage(state.queryLanguage);
+        setSqlResult(null);
+        localStorage.setItem('queryLanguage', state.queryLanguage);
+      }
+      if (state.builder) {
+        setBuilderTree(state.builder);
+        setBuilderTargetId(null);
+      }
+      setBuilderActive(Boolean(state.builder));
+      if (state.pinnedFilters) setPinnedFilters(state.pinnedFilters);
+      if (state.columns && state.columns.length > 0) {
+        setTableColumns(state.columns);
+        localStorage.setItem(`tableColumns:${pattern}`, JSON.stringify(state.columns));
+      }
+    }
+    setQuery(bookmark.query);
+    setPendingSearch(bookmark.query);
+  };
+
+  useEffect(() => {
+    if (pendingSearch === null) return;
+    setPendingSearch(null);
+    handleSearch(pendingSearch);
+  }, [pendingSearch]);
+
+  useEffect(() => {
+    const link = initialLinkRef.current;
+    if (!configLoaded || !link) return;
+    initialLinkRef.current = null;
+    linkTargetRef.current = link.page || link.hit ? { page: link.page || 1, hit: link.hit || null } : null;
+    runBookmark(link);
+  }, [configLoaded]);
+
+  // Pages are read with search_after, so a linked page is reached by stepping
+  // through the ones before it.
+  useEffect(() => {
+    const target = linkTargetRef.current;
+    if (!target || loading) return;
+    const cursorState = searchCursorRef.current;
+    if (!cursorState) return;
+    if (target.page > currentPage && cursorState.cursors[currentPage]) {
+      goToPage(currentPage + 1);
+      return;
+    }
+    linkTargetRef.current = null;
+    const hitId = target.hit;
+    if (hitId && results.some((hit) => hit._id === hitId)) {
+      setExpandedResults({ [hitId]: true });
+      window.requestAnimationFrame(() => {
+        document.getElementById(`hit-${hitId}`)?.scrollIntoView({ block: 'center' });
+      });
+    }
+  }, [results, loading]);
+
+  const buildSearchLink = (freezeTime: boolean): SearchLinkState | null => {
+    if (queryLanguage !== 'lucene') {
+      return sqlResult ? { query, queryLanguage } : null;
+    }
+    const cursorState = searchCursorRef.current;
+    if (!cursorState) return null;
+    const relative = timePreset !== 'custom' && !freezeTime;
+    const hit = Object.keys(expandedResults).filter((id) => expandedResults[id]).pop();
+    return {
+      indexPattern: cursorState.indexPattern,
+      query: cursorState.query,
+      ...(relative
+        ? { timePreset }
+        : { start: cursorState.range.start.toISOString(), end: cursorState.range.end.toISOString() }),
+      searchMode,
+      pinnedFilters,
+      page: currentPage,
+      hit
+    };
   };
 
-  const promoteBookmark = async (bookmark: { name: string; query: string }) => {
+  // Keep the address bar in step with the search on screen.
+  useEffect(() => {
+    if (initialLinkRef.current || linkTargetRef.current) return;
+    const link = buildSearchLink(false);
+    if (link) setSearchParams(encodeSearchLink(link), { replace: true });
+  }, [results, currentPage, expandedResults, sqlResult]);
+
+  const copySearchLink = () => {
+    const link = buildSearchLink(freezeLinkTime);
+    if (!link) return;
+    copyToClipboard(`${window.location.origin}${window.location.pathname}?${encodeSearchLink(link).toString()}`);
+  };
+
+  const copyShortLink = async () => {
+    const link = buildSearchLink(freezeLinkTime);
+    if (!link) return;
+    const state = captureSearchState();
+    if (link.start && link.end) {
+      state.timePreset = 'custom';
+      state.start = link.start;
+      state.end = link.end;
+    }
+    try {
+      const response = await axios.post<{ id: string; path: string }>('/api/links', {
+        query: link.query || '',
+        state: { ...state, indexPattern: link.indexPattern || indexPattern },
+        page: link.page,
+        hit: link.hit,
+        expiresInDays: shortLinkExpiryDays || undefined
+      });
+      copyToClipboard(`${window.location.origin}${response.data.path}`);
+    } catch (err) {
+      if (axios.isAxiosError(err) && err.response?.status === 401) {
+        if (authEnabled) onLogout();
+        return;
+      }
+      const detail = axios.isAxiosError(err) ? err.response?.data?.error : null;
+      alert(detail ? String(detail) : 'Failed to create short link.');
+    }
+  };
+
+  const promoteBookmark = async (bookmark: SavedSearch) => {
     try {
-      const response = await axios.post<TeamBookmark>('/api/team-bookmarks', bookmark);
+      const response = await axios.post<TeamBookmark>('/api/team-bookmarks', {
+        name: bookmark.name,
+        query: bookmark.query,
+        state: bookmark.state
+      });
       const exists = teamBookmarks.some((b) => b.id === response.data.id);
       if (!exists) {
         setTeamBookmarks((prev) => [...prev, response.data]);
@@ -906,12 +1939,83 @@ function LogSearchApp({
     }
   };
 
+  const canCreateRule = featureAccess.rules && (!authEnabled || (user?.role !== undefined && user.role !== 'viewer'));
+
+  // Rules are evaluated as query_string on the server, so exact-mode phrases are
+  // quoted. Pinned filters are only shortcuts for adding filters and are not
+  // part of the search, so they are left out.
+  const buildRuleQuery = () => {
+    const q = query.trim();
+    return q && searchMode === 'exact' && !isAdvancedQuery(q)
+      ? `"${q.replace(/["\\]/g, '\\$&')}"`
+      : q;
+  };
+
+  const openRuleDialog = async () => {
+    setRuleDraft({
+      name: '',
+      query: buildRuleQuery(),
+      indexPattern,
+      comparator: 'above',
+      threshold: 10,
+      windowMinutes: 15,
+      team: user?.teams?.[0] || '',
+      channelIds: []
+    });
+    try {
+      const response = await axios.get<{ id: string; name: string; type: string }[]>('/api/channels');
+      setRuleChannels(response.data || []);
+    } catch {
+      setRuleChannels([]);
+    }
+  };
+
+  const saveRuleDraft = async () => {
+    if (!ruleDraft) return;
+    if (!ruleDraft.name.trim() || !ruleDraft.query.trim()) {
+      alert('Enter a rule name and query.');
+      return;
+    }
+    if (authEnabled && user?.role !== 'admin' && !ruleDraft.team) {
+      alert('Choose a team for this rule.');
+      return;
+    }
+    setRuleSaving(true);
+    try {
+      const existing = await axios.get<Record<string, any>[]>('/api/rules');
+      const rule = {
+        name: ruleDraft.name.trim(),
+        query: ruleDraft.query.trim(),
+        indexPattern: ruleDraft.indexPattern,
+        condition: 'count',
+        comparator: ruleDraft.comparator,
+        threshold: ruleDraft.threshold,
+        windowMinutes: ruleDraft.windowMinutes,
+        team: ruleDraft.team || undefined,
+        channelIds: ruleDraft.channelIds
+      };
+      await axios.put('/api/rules', [...(existing.data || []), rule]);
+      setRuleDraft(null);
+      alert('Alert rule created.');
+    } catch (err) {
+      if (axios.isAxiosError(err) && err.response?.status === 401) {
+        if (authEnabled) onLogout();
+        return;
+      }
+      if (axios.isAxiosError(err) && err.response?.data?.error) {
+        alert(err.response.data.error === 'Feature disabled' ? 'Alert rules are disabled for your team.' : err.response.data.error);
+        return;
+      }
+      alert('Failed to create alert rule.');
+    } finally {
+      setRuleSaving(false);
+    }
+  };
+
   const clearAllSearches = () => {
-    if (window.confirm('Clear all recent searches and bookmarks?')) {
+    if (window.confirm('Clear all recent searches? Saved searches are kept.')) {
       localStorage.removeItem('recentSearches');
-      localStorage.removeItem('bookmarks');
       setRecentSearches([]);
-      setBookmarks([]);
     }
   };
 
@@ -948,7 +2052,7 @@ function LogSearchApp({
     const exportQuery = query.trim()
       ? {
           bool: {
-            must: [buildQueryStringClause(indexPattern, query)],
+            must: [getBuilderDsl(query) || buildQueryStringClause(indexPattern, query)],
             filter: [rangeFilter]
           }
         }
@@ -1028,10 +2132,13 @@ function LogSearchApp({
   const parsedIndexOptions = indexOptions
     .map(parseIndexOption)
     .filter((option) => option.value.length > 0);
-  const hasIndexOption = parsedIndexOptions.some((option) => option.value === indexPattern);
-  const availableIndexOptions = hasIndexOption
-    ? parsedIndexOptions
-    : [{ value: indexPattern, label: indexPattern }, ...parsedIndexOptions];
+  const availableIndexOptions = [
+    ...splitIndexPatterns(indexPattern)
+      .filter((pattern) => !parsedIndexOptions.some((option) => option.value === pattern))
+      .map((pattern) => ({ value: pattern, label: pattern })),
+    ...parsedIndexOptions
+  ];
+  const showSourceIndex = splitIndexPatterns(searchCursorRef.current?.indexPattern || indexPattern).length > 1;
   const builderFields = fieldExplorerFields.length > 0
     ? fieldExplorerFields
     : ['message', 'level', 'service', 'host', 'env'];
@@ -1119,7 +2226,7 @@ function LogSearchApp({
             }} className="px-3 py-1 rounded bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-white text-sm">
               {darkMode ? '☀️' : '🌙'}
             </button>
-            <button onClick={clearAllSearches} className="px-3 py-1 rounded bg-red-600 text-white text-sm hover:bg-red-700" title="Clear recent searches & bookmarks">
+            <button onClick={clearAllSearches} className="px-3 py-1 rounded bg-red-600 text-white text-sm hover:bg-red-700" title="Clear recent searches">
               🧹 Clear
             </button>
             <Link
@@ -1167,16 +2274,46 @@ function LogSearchApp({
           </div>
         )}
 
+        {featureAccess.rules && (
+          <div className="mb-4 bg-white dark:bg-gray-800 border dark:border-gray-700 rounded-lg p-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-sm font-semibold text-gray-700 dark:text-gray-200">
+                🔔 Alerts
+                {alertEvents.some((event) => !event.acknowledgedAt) && (
+                  <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-200">
+                    {alertEvents.filter((event) => !event.acknowledgedAt).length} open
+                  </span>
+                )}
+              </h2>
+              <div className="flex items-center gap-2">
+                {showAlerts && (
+                  <button onClick={loadAlerts} className="text-xs px-2 py-1 rounded bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200">
+                    Refresh
+                  </button>
+                )}
+                <button onClick={() => setShowAlerts((prev) => !prev)} className="text-xs px-2 py-1 rounded bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200">
+                  {showAlerts ? 'Hide' : 'Show'}
+                </button>
+              </div>
+            </div>
+            {showAlerts && (
+              <div className="mt-3 max-h-96 overflow-auto">
+                <AlertsPanel
+                  events={alertEvents}
+                  snoozes={alertSnoozes}
+                  canManage={!authEnabled || (user?.role !== undefined && user.role !== 'viewer')}
+                  onAcknowledge={acknowledgeAlert}
+                  onSnooze={snoozeAlertRule}
+                />
+              </div>
+            )}
+          </div>
+        )}
+
         <div className="mb-4">
           <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Index Pattern</label>
           <div className="flex flex-wrap items-center gap-3">
-            <select value={indexPattern} onChange={handleIndexChange} className="w-full md:w-64 px-3 py-2 border rounded dark:bg-gray-800 dark:border-gray-600 dark:text-white">
-              {availableIndexOptions.map((option) => (
-                <option key={option.value} value={option.value}>
-                  {option.value === '*' ? 'All Indices' : option.label}
-                </option>
-              ))}
-            </select>
+            <IndexPatternPicker value={indexPattern} options={availableIndexOptions} onChange={handleIndexChange} />
             <label className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
               <input
                 type="checkbox"
@@ -1203,6 +2340,22 @@ function LogSearchApp({
               </div>
             )}
           </div>
+          <div className="flex flex-wrap items-center gap-2 mt-2 text-xs text-gray-600 dark:text-gray-300">
+            <label className="flex items-center gap-1">
+              <input type="checkbox" checked={compareMode} onChange={(e) => setCompareMode(e.target.checked)} />
+              Compare with
+            </label>
+            <select
+              value={compareBaseline}
+              onChange={(e) => setCompareBaseline(e.target.value as CompareBaseline)}
+              disabled={!compareMode}
+              className="px-2 py-1 border rounded dark:bg-gray-800 dark:border-gray-600 dark:text-white disabled:opacity-50"
+            >
+              {COMPARE_BASELINES.map((baseline) => (
+                <option key={baseline.value} value={baseline.value}>{baseline.label}</option>
+              ))}
+            </select>
+          </div>
           {featureAccess.limitTo7Days && (
             <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Restricted to last 7 days by team policy.</p>
           )}
@@ -1221,7 +2374,7 @@ function LogSearchApp({
                 <option value="AND">AND</option>
                 <option value="OR">OR</option>
               </select>
-              <button onClick={fetchFieldExplorer} className="text-xs px-2 py-1 rounded bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200">
+              <button onClick={() => fetchFieldExplorer()} className="text-xs px-2 py-1 rounded bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200">
                 Refresh
               </button>
             </div>
@@ -1249,8 +2402,16 @@ function LogSearchApp({
           <div className="space-y-3">
             {fieldExplorerData.map((field) => (
               <div key={field.field}>
-                <div className="text-xs font-semibold text-gray-600 dark:text-gray-300 mb-1">
+                <div className="text-xs font-semibold text-gray-600 dark:text-gray-300 mb-1 flex items-center gap-2">
                   <span title={fieldGlossary[field.field]?.description || ''}>{field.field}</span>
+                  {(oneOfSelection[field.field] || []).length > 0 && (
+                    <span className="font-normal flex items-center gap-2">
+                      <button onClick={() => applyOneOfSelection(field.field)} className="text-blue-600 dark:text-blue-300 underline">
+                        Add is one of ({oneOfSelection[field.field].length})
+                      </button>
+                      <button onClick={() => setOneOfSelection((prev) => ({ ...prev, [field.field]: [] }))} className="text-gray-500 underline">Clear</button>
+                    </span>
+                  )}
                 </div>
                 <div className="flex flex-wrap gap-2">
                   {field.values.map((val) => (
@@ -1262,6 +2423,26 @@ function LogSearchApp({
                       >
                         {String(val.value)} ({val.count})
                       </button>
+                      <button
+                        onClick={() => addQuickFilter(field.field, String(val.value), 'is_not')}
+                        className="text-xs px-2 py-1 rounded bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200"
+                        title="Exclude this value"
+                      >
+                        ≠
+                      </button>
+                      <select
+                        value=""
+                        onChange={(e) => applyValueAction(field.field, String(val.value), e.target.value)}
+                        className={`text-xs px-1 py-1 rounded border dark:bg-gray-800 dark:border-gray-600 dark:text-white ${(oneOfSelection[field.field] || []).includes(String(val.value)) ? 'border-blue-500' : ''}`}
+                        title="More filters"
+                      >
+                        <option value="">⋯</option>
+                        <option value="gt">&gt; {String(val.value)}</option>
+                        <option value="lt">&lt; {String(val.value)}</option>
+                        <option value="between">between {String(val.value)} and...</option>
+                        <option value="one_of">{(oneOfSelection[field.field] || []).includes(String(val.value)) ? 'Remove from is one of' : 'Add to is one of'}</option>
+                        <option value="regex">matches regex...</option>
+                      </select>
                       <button
                         onClick={() => togglePinnedFilter(field.field, String(val.value))}
                         className="text-xs px-2 py-1 rounded bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200"
@@ -1284,19 +2465,22 @@ function LogSearchApp({
           <div className="mb-6 bg-white dark:bg-gray-800 border dark:border-gray-700 rounded-lg p-4">
             <div className="flex items-center justify-between mb-3">
               <h2 className="text-sm font-semibold text-gray-700 dark:text-gray-200">Query Builder</h2>
-            </div>
-            <div className="flex flex-wrap gap-2 items-end">
-              <div>
-                <label className="block text-xs text-gray-500 mb-1">Join</label>
-                <select
-                  value={builderJoin}
-                  onChange={(e) => setBuilderJoin(e.target.value as 'AND' | 'OR')}
-                  className="px-2 py-1 border rounded text-sm dark:bg-gray-800 dark:border-gray-600 dark:text-white"
+              <div className="flex items-center gap-3">
+                <label className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-300" title="Send term/range/exists clauses instead of query_string text">
+                  <input type="checkbox" checked={builderDsl} onChange={(e) => handleBuilderDslChange(e.target.checked)} />
+                  Send as DSL
+                </label>
+                <button
+                  onClick={loadBuilderFromQuery}
+                  disabled={!query.trim()}
+                  className="text-xs px-2 py-1 rounded bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 disabled:opacity-50"
+                  title="Rebuild the filter groups from the search box"
                 >
-                  <option value="AND">AND</option>
-                  <option value="OR">OR</option>
-                </select>
+                  Edit current query
+                </button>
               </div>
+            </div>
+            <div className="flex flex-wrap gap-2 items-end">
               <div>
                 <label className="block text-xs text-gray-500 mb-1">Field</label>
                 <select value={builderField} onChange={(e) => setBuilderField(e.target.value)} className="px-2 py-1 border rounded text-sm dark:bg-gray-800 dark:border-gray-600 dark:text-white">
@@ -1309,44 +2493,77 @@ function LogSearchApp({
                 <label className="block text-xs text-gray-500 mb-1">Operator</label>
                 <select value={builderOp} onChange={(e) => setBuilderOp(e.target.value as BuilderChip['operator'])} className="px-2 py-1 border rounded text-sm dark:bg-gray-800 dark:border-gray-600 dark:text-white">
                   <option value="is">is</option>
+                  <option value="is_not">is not</option>
                   <option value="contains">contains</option>
+                  <option value="one_of">is one of</option>
+                  <option value="gt">&gt;</option>
+                  <option value="lt">&lt;</option>
+                  <option value="between">between</option>
+                  <option value="regex">matches regex</option>
                   <option value="exists">exists</option>
                   <option value="not_exists">not exists</option>
                 </select>
               </div>
               <div className="flex-grow min-w-[200px]">
                 <label className="block text-xs text-gray-500 mb-1">Value</label>
-                <input
-                  value={builderValue}
-                  onChange={(e) => setBuilderValue(e.target.value)}
-                  disabled={builderOp === 'exists' || builderOp === 'not_exists'}
-                  placeholder={builderOp === 'exists' || builderOp === 'not_exists' ? 'Not required' : 'Enter value'}
-                  className="w-full px-2 py-1 border rounded text-sm dark:bg-gray-800 dark:border-gray-600 dark:text-white disabled:opacity-60"
-                />
+                <div className="flex gap-2">
+                  <input
+                    value={builderValue}
+                    onChange={(e) => setBuilderValue(e.target.value)}
+                    disabled={builderOp === 'exists' || builderOp === 'not_exists'}
+                    placeholder={
+                      builderOp === 'exists' || builderOp === 'not_exists'
+                        ? 'Not required'
+                        : builderOp === 'one_of'
+                          ? 'Comma-separated values'
+                          : builderOp === 'regex'
+                            ? 'Regular expression, e.g. err(or)?[0-9]+'
+                            : builderOp === 'between' ? 'From' : 'Enter value'
+                    }
+                    className="w-full px-2 py-1 border rounded text-sm dark:bg-gray-800 dark:border-gray-600 dark:text-white disabled:opacity-60"
+                  />
+                  {builderOp === 'between' && (
+                    <input
+                      value={builderValueTo}
+                      onChange={(e) => setBuilderValueTo(e.target.value)}
+                      placeholder="To"
+                      className="w-full px-2 py-1 border rounded text-sm dark:bg-gray-800 dark:border-gray-600 dark:text-white"
+                    />
+                  )}
+                </div>
               </div>
               <button onClick={addBuilderChip} className="px-3 py-2 bg-blue-600 text-white rounded text-sm">Add Filter</button>
               <button onClick={clearBuilder} className="px-3 py-2 bg-gray-200 rounded text-sm">Clear</button>
             </div>
-            {builderChips.length > 0 && (
-              <div className="mt-3 space-y-2">
-                <div className="flex flex-wrap gap-2">
-                  {builderChips.map((chip, index) => (
-                    <span key={`${chip.field}-${index}`} className="text-xs bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 px-2 py-1 rounded inline-flex items-center gap-1">
-                      {buildClause(chip)}
-                      <button onClick={() => removeBuilderChip(index)} className="text-gray-500 hover:text-gray-700">✕</button>
-                    </span>
-                  ))}
-                </div>
-                {builderActive && (
-                  <div className="text-xs text-gray-500">Generated query: {query}</div>
-                )}
-              </div>
-            )}
+            <div className="mt-3 space-y-2">
+              {renderBuilderGroup(builderTree, true)}
+              {builderActive && (
+                <div className="text-xs text-gray-500">Generated query: {query}</div>
+              )}
+              {builderActive && builderDsl && (
+                <pre className="text-xs text-gray-500 bg-gray-50 dark:bg-gray-900 rounded p-2 overflow-auto max-h-48">
+                  {JSON.stringify(buildDslFromGroup(builderTree, resolveBuilderField), null, 2)}
+                </pre>
+              )}
+            </div>
           </div>
         )}
 
         <form onSubmit={handleFormSubmit} className="mb-2 flex gap-2">
-          <input type="text" value={query} onChange={(e) => handleQueryChange(e.target.value)} placeholder='Search logs...' className="flex-grow px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-800 dark:border-gray-600 dark:text-white" autoFocus />
+          <QueryInput
+            value={query}
+            onChange={handleQueryChange}
+            fields={indexFields}
+            fieldLabels={fieldGlossary}
+            loadValues={loadSuggestedValues}
+            issues={queryIssues}
+            suggest={queryLanguage === 'lucene'}
+            placeholder={queryLanguage === 'sql'
+              ? 'SELECT * FROM logs-* WHERE level = \'error\' LIMIT 100'
+              : queryLanguage === 'ppl' ? 'source=logs-* | where level = \'error\' | head 100' : 'Search logs...'}
+            className="w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-800 dark:border-gray-600 dark:text-white"
+            autoFocus
+          />
           <button
             type="button"
             onClick={() => handleQueryChange('')}
@@ -1358,14 +2575,164 @@ function LogSearchApp({
           </button>
           <button type="submit" disabled={loading} className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50">Search</button>
           <button type="button" onClick={addBookmark} disabled={!query.trim()} className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 disabled:opacity-50" title="Save this search">🔖</button>
+          {canCreateRule && (
+            <button type="button" onClick={openRuleDialog} disabled={!query.trim()} className="bg-amber-500 text-white px-4 py-2 rounded-lg hover:bg-amber-600 disabled:opacity-50" title="Create alert from this search">🔔</button>
+          )}
         </form>
+        {queryIssues.length > 0 && (
+          <ul className="mb-2 space-y-1 text-xs">
+            {queryIssues.map((issue) => (
+              <li
+                key={`${issue.start}-${issue.message}`}
+                className={`flex flex-wrap items-center gap-2 ${issue.severity === 'error' ? 'text-red-700 dark:text-red-300' : 'text-amber-700 dark:text-amber-300'}`}
+              >
+                <span className="font-mono text-gray-500 dark:text-gray-400">{query.slice(issue.start, issue.end) || '…'}</span>
+                <span>{issue.message}</span>
+                {issue.fix && (
+                  <button
+                    type="button"
+                    onClick={() => handleQueryChange(issue.fix?.query || query)}
+                    className="px-2 py-0.5 rounded border border-current hover:bg-gray-100 dark:hover:bg-gray-800"
+                  >
+                    {issue.fix.label}
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+        {contextView && (
+          <ContextDrawer
+            data={contextData}
+            loading={contextLoading}
+            error={contextError}
+            sameField={contextView.sameField}
+            size={contextView.size}
+            fieldOptions={Object.keys(contextView.hit._source || {}).filter((key) => {
+              const value = contextView.hit._source[key];
+              return value !== null && typeof value !== 'object';
+            })}
+            onChange={(next) => loadContext(contextView.hit, next.sameField, next.size)}
+            onClose={closeContext}
+          />
+        )}
+        {ruleDraft && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+            <div className="w-full max-w-lg rounded-lg bg-white dark:bg-gray-900 border dark:border-gray-700">
+              <div className="flex items-center justify-between px-4 py-3 border-b dark:border-gray-700">
+                <div className="font-semibold text-gray-800 dark:text-gray-100">Create alert from this search</div>
+                <button
+                  type="button"
+                  onClick={() => setRuleDraft(null)}
+                  className="px-2 py-1 rounded bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 text-xs"
+                >
+                  Close
+                </button>
+              </div>
+              <div className="p-4 space-y-3 text-sm text-gray-700 dark:text-gray-200">
+                <label className="block">
+                  <span className="text-xs text-gray-500 dark:text-gray-400">Rule name</span>
+                  <input value={ruleDraft.name} onChange={(e) => setRuleDraft({ ...ruleDraft, name: e.target.value })} className="w-full px-3 py-2 border rounded dark:bg-gray-800 dark:border-gray-600 dark:text-white" autoFocus />
+                </label>
+                <label className="block">
+                  <span className="text-xs text-gray-500 dark:text-gray-400">Query</span>
+                  <textarea value={ruleDraft.query} onChange={(e) => setRuleDraft({ ...ruleDraft, query: e.target.value })} rows={3} className="w-full px-3 py-2 border rounded font-mono text-xs dark:bg-gray-800 dark:border-gray-600 dark:text-white" />
+                </label>
+                <div className="grid grid-cols-2 gap-3">
+                  <label className="block">
+                    <span className="text-xs text-gray-500 dark:text-gray-400">Index pattern</span>
+                    <select value={ruleDraft.indexPattern} onChange={(e) => setRuleDraft({ ...ruleDraft, indexPattern: e.target.value })} className="w-full px-3 py-2 border rounded dark:bg-gray-800 dark:border-gray-600 dark:text-white">
+                      {availableIndexOptions.map((option) => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                  </label>
+                  {authEnabled && user ? (
+                    <label className="block">
+                      <span className="text-xs text-gray-500 dark:text-gray-400">Team</span>
+                      <select value={ruleDraft.team} onChange={(e) => setRuleDraft({ ...ruleDraft, team: e.target.value })} className="w-full px-3 py-2 border rounded dark:bg-gray-800 dark:border-gray-600 dark:text-white">
+                        {user.role === 'admin' && <option value="">No team</option>}
+                        {user.teams.map((team) => (
+                          <option key={team} value={team}>{team}</option>
+                        ))}
+                      </select>
+                    </label>
+                  ) : (
+                    <label className="block">
+                      <span className="text-xs text-gray-500 dark:text-gray-400">Team (optional)</span>
+                      <input value={ruleDraft.team} onChange={(e) => setRuleDraft({ ...ruleDraft, team: e.target.value })} className="w-full px-3 py-2 border rounded dark:bg-gray-800 dark:border-gray-600 dark:text-white" />
+                    </label>
+                  )}
+                </div>
+                <div className="grid grid-cols-3 gap-3">
+                  <label className="block">
+                    <span className="text-xs text-gray-500 dark:text-gray-400">Fire when count is</span>
+                    <select value={ruleDraft.comparator} onChange={(e) => setRuleDraft({ ...ruleDraft, comparator: e.target.value as RuleDraft['comparator'] })} className="w-full px-3 py-2 border rounded dark:bg-gray-800 dark:border-gray-600 dark:text-white">
+                      <option value="above">Above</option>
+                      <option value="below">Below</option>
+                    </select>
+                  </label>
+                  <label className="block">
+                    <span className="text-xs text-gray-500 dark:text-gray-400">Threshold</span>
+                    <input type="number" min={0} value={ruleDraft.threshold} onChange={(e) => setRuleDraft({ ...ruleDraft, threshold: Number(e.target.value) })} className="w-full px-3 py-2 border rounded dark:bg-gray-800 dark:border-gray-600 dark:text-white" />
+                  </label>
+                  <label className="block">
+                    <span className="text-xs text-gray-500 dark:text-gray-400">Window (minutes)</span>
+                    <input type="number" min={1} value={ruleDraft.windowMinutes} onChange={(e) => setRuleDraft({ ...ruleDraft, windowMinutes: Number(e.target.value) })} className="w-full px-3 py-2 border rounded dark:bg-gray-800 dark:border-gray-600 dark:text-white" />
+                  </label>
+                </div>
+                {ruleChannels.length > 0 && (
+                  <div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">Notify</div>
+                    <div className="flex flex-wrap gap-3 text-xs">
+                      {ruleChannels.map((channel) => {
+                        const selected = ruleDraft.channelIds.includes(channel.id);
+                        return (
+                          <label key={channel.id} className="inline-flex items-center gap-1">
+                            <input
+                              type="checkbox"
+                              checked={selected}
+                              onChange={() => setRuleDraft({
+                                ...ruleDraft,
+                                channelIds: selected
+                                  ? ruleDraft.channelIds.filter((id) => id !== channel.id)
+                                  : [...ruleDraft.channelIds, channel.id]
+                              })}
+                            />
+                            {channel.name} <span className="text-gray-400">({channel.type})</span>
+                          </label>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
+                <div className="flex justify-end gap-2 pt-2">
+                  <button type="button" onClick={() => setRuleDraft(null)} className="px-3 py-2 rounded bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200">Cancel</button>
+                  <button type="button" onClick={saveRuleDraft} disabled={ruleSaving} className="px-3 py-2 rounded bg-blue-600 text-white disabled:opacity-50">
+                    {ruleSaving ? 'Saving...' : 'Create alert'}
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
         {searchTip && (
           <div className="mb-6 text-xs text-amber-800 dark:text-amber-200 bg-amber-50 dark:bg-amber-900/30 border border-amber-200 dark:border-amber-900/40 rounded px-3 py-2">
             Tip: {searchTip}
           </div>
         )}
         <div className="mb-6 flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
-          <span>Search mode:</span>
+          <span>Language:</span>
+          <select
+            value={queryLanguage}
+            onChange={(e) => handleQueryLanguageChange(e.target.value as 'lucene' | 'ppl' | 'sql')}
+            className="px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300"
+          >
+            <option value="lucene">Lucene</option>
+            <option value="ppl">PPL</option>
+            <option value="sql">SQL</option>
+          </select>
+          <span className="ml-4">Search mode:</span>
           <button
             type="button"
             onClick={() => handleSearchModeChange('relevant')}
@@ -1380,6 +2747,32 @@ function LogSearchApp({
           >
             Exact
           </button>
+          <span className="ml-4">Live:</span>
+          <button
+            type="button"
+            onClick={() => (liveMode ? stopLiveTail() : startLiveTail())}
+            className={`px-3 py-1 rounded-full border ${liveMode ? 'bg-green-600 text-white border-green-600' : 'bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+            title="Poll for new logs matching this search"
+          >
+            {liveMode ? '● Live' : 'Off'}
+          </button>
+          {liveMode && (
+            <>
+              <button
+                type="button"
+                onClick={() => setLivePaused((prev) => !prev)}
+                className="px-3 py-1 rounded-full border bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+              >
+                {livePaused ? '▶ Resume' : '⏸ Pause'}
+              </button>
+              <span className={livePaused ? 'text-gray-400' : 'text-green-700 dark:text-green-400'}>
+                {livePaused ? 'Paused' : `${liveRate} new/min`}
+              </span>
+            </>
+          )}
+          {liveMode && liveNotice && (
+            <span className="text-amber-700 dark:text-amber-300">{liveNotice}</span>
+          )}
         </div>
 
         {(bookmarks.length > 0 || recentSearches.length > 0 || (featureAccess.bookmarks && teamBookmarks.length > 0)) && (
@@ -1388,9 +2781,16 @@ function LogSearchApp({
               <div>
                 <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">🔖 Bookmarks:</p>
                 <div className="flex flex-wrap gap-2">
-                  {bookmarks.map((b, i) => (
-                    <div key={i} className="flex items-center gap-1">
-                      <button onClick={() => runBookmark(b.query)} className="text-xs bg-purple-200 dark:bg-purple-900 hover:bg-purple-300 px-2 py-1 rounded text-purple-800 dark:text-purple-200">{b.name}</button>
+                  {bookmarks.map((b) => (
+                    <div key={b.id} className="flex items-center gap-1">
+                      <button
+                        onClick={() => runBookmark(b)}
+                        title={b.state ? `${b.query || '(no query)'} · ${b.state.indexPattern || ''} ${b.state.timePreset || ''}`.trim() : b.query}
+                        className="text-xs bg-purple-200 dark:bg-purple-900 hover:bg-purple-300 px-2 py-1 rounded text-purple-800 dark:text-purple-200"
+                      >
+                        {b.name}
+                      </button>
+                      <button onClick={() => deleteBookmark(b)} className="text-xs text-gray-400 hover:text-red-600" title="Delete saved search">×</button>
                       {featureAccess.bookmarks && (!authEnabled || user?.role !== 'viewer') && (
                         <button onClick={() => promoteBookmark(b)} className="text-[10px] px-2 py-1 rounded bg-indigo-200 dark:bg-indigo-900 text-indigo-800 dark:text-indigo-200 hover:bg-indigo-300">Promote</button>
                       )}
@@ -1404,7 +2804,7 @@ function LogSearchApp({
                 <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">👥 Team Bookmarks:</p>
                 <div className="flex flex-wrap gap-2">
                   {teamBookmarks.map((b) => (
-                    <button key={b.id} onClick={() => runBookmark(b.query)} className="text-xs bg-indigo-200 dark:bg-indigo-900 hover:bg-indigo-300 px-2 py-1 rounded text-indigo-800 dark:text-indigo-200">{b.name}</button>
+                    <button key={b.id} onClick={() => runBookmark(b)} className="text-xs bg-indigo-200 dark:bg-indigo-900 hover:bg-indigo-300 px-2 py-1 rounded text-indigo-800 dark:text-indigo-200">{b.name}</button>
                   ))}
                 </div>
               </div>
@@ -1438,19 +2838,113 @@ function LogSearchApp({
                 <button onClick={() => exportResults('csv')} className="text-sm bg-teal-600 text-white px-3 py-1 rounded hover:bg-teal-700">📥 Export CSV</button>
               </>
             )}
+            <button onClick={copySearchLink} className="text-sm bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-100 px-3 py-1 rounded hover:bg-gray-300 dark:hover:bg-gray-600" title="Copy a link that reopens this search">🔗 Copy link</button>
+            <button onClick={copyShortLink} className="text-sm bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-100 px-3 py-1 rounded hover:bg-gray-300 dark:hover:bg-gray-600" title="Store this search on the server and copy a short /s/ link">✂️ Short link</button>
+            <select
+              value={shortLinkExpiryDays}
+              onChange={(e) => {
+                setShortLinkExpiryDays(Number(e.target.value));
+                localStorage.setItem('shortLinkExpiryDays', e.target.value);
+              }}
+              className="text-xs border dark:border-gray-700 dark:bg-gray-800 dark:text-gray-100 rounded px-1"
+              title="Short link expiry"
+            >
+              <option value={0}>Never expires</option>
+              <option value={1}>Expires in 1 day</option>
+              <option value={7}>Expires in 7 days</option>
+              <option value={30}>Expires in 30 days</option>
+              <option value={90}>Expires in 90 days</option>
+            </select>
+            {timePreset !== 'custom' && (
+              <label className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-300" title="Share the exact time range instead of the relative preset">
+                <input type="checkbox" checked={freezeLinkTime} onChange={(e) => setFreezeLinkTime(e.target.checked)} />
+                Freeze time range
+              </label>
+            )}
+          </div>
+        )}
+
+        {queryLanguage !== 'lucene' && sqlResult && !loading && (
+          <div className="mb-4">
+            <SqlResultsTable result={sqlResult} />
+          </div>
+        )}
+
+        {compareMode && queryLanguage === 'lucene' && (compareResult || compareLoading || compareError) && (
+          <div className="mb-4 bg-white dark:bg-gray-800 border dark:border-gray-700 rounded-lg p-3">
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="text-sm font-semibold text-gray-700 dark:text-gray-200">Compare</h2>
+              {compareLoading && <span className="text-xs text-gray-500 dark:text-gray-400">Comparing...</span>}
+            </div>
+            {compareError && <p className="text-sm text-red-600 dark:text-red-400">{compareError}</p>}
+            {compareResult && (
+              <CompareView
+                result={compareResult}
+                baselineLabel={COMPARE_BASELINES.find((baseline) => baseline.value === compareBaseline)?.label.toLowerCase() || compareBaseline}
+              />
+            )}
+          </div>
+        )}
+
+        {totalHits > 0 && histogram && histogram.buckets.length > 0 && (
+          <div className="mb-4 bg-white dark:bg-gray-800 border dark:border-gray-700 rounded-lg p-3">
+            <HitsHistogram
+              buckets={histogram.buckets}
+              intervalMs={histogram.intervalMs}
+              intervalLabel={histogram.intervalLabel}
+              onSelectRange={narrowTimeRange}
+            />
           </div>
         )}
 
         {totalHits > 0 && (
           <div className="mb-4 flex items-center justify-between">
-            <div className="text-xs uppercase tracking-widest text-gray-500 dark:text-gray-400">Results</div>
+            <div className="flex items-center gap-3">
+              <div className="text-xs uppercase tracking-widest text-gray-500 dark:text-gray-400">Results</div>
+              <div className="flex rounded border dark:border-gray-700 overflow-hidden text-xs">
+                {(['list', 'table', 'patterns'] as const).map((view) => (
+                  <button
+                    key={view}
+                    onClick={() => handleResultsViewChange(view)}
+                    className={`px-2 py-0.5 ${resultsView === view ? 'bg-blue-600 text-white' : 'bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-300'}`}
+                  >
+                    {view === 'list' ? 'List' : view === 'table' ? 'Table' : 'Patterns'}
+                  </button>
+                ))}
+              </div>
+              {resultsView === 'table' && (
+                <button onClick={resetTableColumns} className="text-xs text-gray-500 dark:text-gray-400 underline">Reset columns</button>
+              )}
+            </div>
             <div className="rounded-full border border-gray-200 dark:border-gray-700 bg-white/70 dark:bg-gray-800/70 px-3 py-1 text-xs text-gray-700 dark:text-gray-300 shadow-sm">
               Showing {(currentPage - 1) * pageSize + 1}–{Math.min(currentPage * pageSize, totalHits)} of {totalHits}
             </div>
           </div>
         )}
+        {resultsView === 'table' && results.length > 0 && (
+          <div className="mb-4">
+            <ResultsTable
+              rows={results}
+              columns={tableColumns}
+              fields={indexFields}
+              sort={tableSort}
+              fieldLabels={fieldGlossary}
+              getValue={getFieldValue}
+              onColumnsChange={updateTableColumns}
+              onSortChange={setTableSort}
+              showIndex={showSourceIndex}
+            />
+          </div>
+        )}
+        {resultsView === 'patterns' && totalHits > 0 && (
+          <div className="mb-4">
+            {patternsLoading && <p className="text-center text-gray-500 dark:text-gray-400">Grouping messages...</p>}
+            {!patternsLoading && patternsError && <p className="text-center text-red-600 dark:text-red-400">{patternsError}</p>}
+            {!patternsLoading && patternsResult && <PatternsView result={patternsResult} onSelect={filterToPattern} />}
+          </div>
+        )}
         <div className="space-y-4">
-          {results.map((hit) => {
+          {resultsView === 'list' && results.map((hit) => {
             const timestamp = hit._source.timestamp || hit._source['@timestamp'] || 'No timestamp';
             const message = hit._source.message;
             const fullLog = JSON.stringify(hit._source, null, 2);
@@ -1469,6 +2963,7 @@ function LogSearchApp({
             return (
               <div
                 key={hit._id}
+                id={`hit-${hit._id}`}
                 className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow-sm border dark:border-gray-700 max-w-full overflow-hidden"
                 style={highlightColor ? { borderLeft: `4px solid ${highlightColor}` } : undefined}
               >
@@ -1487,6 +2982,11 @@ function LogSearchApp({
                       <div className="text-[11px] uppercase tracking-wide text-gray-400 dark:text-gray-500">Timestamp</div>
                       <div className="text-xs text-gray-600 dark:text-gray-300 break-all">{timestamp}</div>
                     </div>
+                    {showSourceIndex && (
+                      <span className="max-w-[110px] truncate rounded-full bg-indigo-50 dark:bg-indigo-900/40 px-2 py-0.5 text-[11px] text-indigo-700 dark:text-indigo-200" title={`Index: ${hit._index}`}>
+                        {hit._index}
+                      </span>
+                    )}
                   </div>
                   <div className="flex-1 min-w-0">
                     {matchedHighlightRules.length > 0 && (
@@ -1508,6 +3008,7 @@ function LogSearchApp({
                     <div className="mt-3 flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
                       <span>Result</span>
                       <div className="flex items-center gap-3">
+                        <button onClick={() => loadContext(hit, contextView?.sameField || '', contextView?.size || 10)} className="hover:text-gray-800 dark:hover:text-gray-200" title="Show logs around this one">Context</button>
                         <button onClick={() => downloadSingleResult(fullLog, hit._id)} className="hover:text-gray-800 dark:hover:text-gray-200" title="Download JSON">Download JSON</button>
                         {canShowFullResults && (
                           <button onClick={() => copyToClipboard(fullLog)} className="hover:text-gray-800 dark:hover:text-gray-200" title="Copy full log">Copy JSON</button>
@@ -1516,6 +3017,31 @@ function LogSearchApp({
                     </div>
                     {canShowFullResults && isExpanded && (
                       <div className="mt-3 max-w-full overflow-hidden">
+                        <div className="mb-2 flex flex-wrap items-center gap-1 text-[11px] text-gray-500 dark:text-gray-400">
+                          <span>Field stats:</span>
+                          {listFieldPaths(hit._source).map((field) => (
+                            <button
+                              key={field}
+                              onClick={() => loadFieldStats(hit._id, field)}
+                              title={fieldGlossary[field]?.description || 'Show statistics for this field'}
+                              className={`px-1.5 py-0.5 rounded border font-mono ${fieldStatsTarget?.hitId === hit._id && fieldStatsTarget.field === field ? 'border-blue-500 text-blue-600 dark:text-blue-300' : 'border-gray-200 dark:border-gray-700 hover:border-blue-400'}`}
+                            >
+                              {field}
+                            </button>
+                          ))}
+                        </div>
+                        {fieldStatsTarget?.hitId === hit._id && (
+                          <div className="mb-2">
+                            <FieldStatsPopover
+                              field={fieldStatsTarget.field}
+                              stats={fieldStats}
+                              loading={fieldStatsLoading}
+                              error={fieldStatsError}
+                              onFilter={(value) => addQuickFilter(fieldStatsTarget.field, value)}
+                              onClose={() => setFieldStatsTarget(null)}
+                            />
+                          </div>
+                        )}
                         <JsonHighlighter maxHeight={420} highlightTerms={jsonHighlightTerms}>{fullLog}</JsonHighlighter>
                       </div>
                     )}
@@ -1524,7 +3050,7 @@ function LogSearchApp({
               </div>
             );
           })}
-          {results.length === 0 && !loading && (
+          {results.length === 0 && !loading && !(queryLanguage !== 'lucene' && sqlResult) && (
             <p className="text-center text-gray-500 dark:text-gray-400">
               {searchError || 'No logs found.'}
             </p>
@@ -1534,16 +3060,19 @@ function LogSearchApp({
 
         {totalPages > 1 && (
           <div className="flex justify-center mt-6 space-x-1">
-            <button onClick={() => setCurrentPage(p => Math.max(1, p - 1))} disabled={currentPage === 1} className="px-3 py-1 border rounded disabled:opacity-50 dark:bg-gray-800 dark:border-gray-600 dark:text-white">◄ Previous</button>
+            <button onClick={() => goToPage(Math.max(1, currentPage - 1))} disabled={currentPage === 1 || loading} className="px-3 py-1 border rounded disabled:opacity-50 dark:bg-gray-800 dark:border-gray-600 dark:text-white">◄ Previous</button>
             {[...Array(Math.min(5, totalPages)).keys()].map(i => {
-              const pageNum = i + 1;
-              return <button key={pageNum} onClick={() => setCurrentPage(pageNum)} className={`px-3 py-1 border rounded ${currentPage === pageNum ? 'bg-blue-600 text-white' : 'dark:bg-gray-800 dark:border-gray-600 dark:text-white'}`}>{pageNum}</button>;
+              const pageNum = Math.max(1, Math.min(currentPage - 2, totalPages - 4)) + i;
+              return <button key={pageNum} onClick={() => goToPage(pageNum)} disabled={loading} className={`px-3 py-1 border rounded ${currentPage === pageNum ? 'bg-blue-600 text-white' : 'dark:bg-gray-800 dark:border-gray-600 dark:text-white'}`}>{pageNum}</button>;
             })}
-            {totalPages > 5 && <span className="px-2 dark:text-gray-400">...</span>}
-            {totalPages > 5 && <button onClick={() => setCurrentPage(totalPages)} className={`px-3 py-1 border rounded ${currentPage === totalPages ? 'bg-blue-600 text-white' : 'dark:bg-gray-800 dark:border-gray-600 dark:text-white'}`}>{totalPages}</button>}
-            <button onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))} disabled={currentPage === totalPages} className="px-3 py-1 border rounded disabled:opacity-50 dark:bg-gray-800 dark:border-gray-600 dark:text-white">Next ►</button>
+            {totalPages > 5 && currentPage + 2 < totalPages && <span className="px-2 dark:text-gray-400">...</span>}
+            {totalPages > 5 && currentPage + 2 < totalPages && <button onClick={() => goToPage(totalPages)} disabled={loading} className="px-3 py-1 border rounded dark:bg-gray-800 dark:border-gray-600 dark:text-white">{totalPages}</button>}
+            <button onClick={() => goToPage(Math.min(totalPages, currentPage + 1))} disabled={currentPage === totalPages || loading} className="px-3 py-1 border rounded disabled:opacity-50 dark:bg-gray-800 dark:border-gray-600 dark:text-white">Next ►</button>
           </div>
         )}
+        {pageNotice && (
+          <p className="mt-2 text-center text-xs text-amber-700 dark:text-amber-300">{pageNotice}</p>
+        )}
 
         <div className="mt-8 bg-white dark:bg-gray-800 border dark:border-gray-700 rounded-lg p-4">
           <h2 className="text-sm font-semibold text-gray-700 dark:text-gray-200 mb-3">Your Weekly Usage</h2>
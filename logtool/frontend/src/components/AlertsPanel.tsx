@@ -0,0 +1,151 @@
+import { useState } from 'react';
+
+export interface AlertDelivery {
+  channelId: string | null;
+  name: string;
+  type: string;
+  status: 'sent' | 'skipped' | 'failed';
+  error?: string;
+}
+
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  team: string | null;
+  query: string;
+  indexPattern: string;
+  condition: string;
+  value: number | null;
+  threshold: number;
+  windowMinutes: number;
+  triggeredAt: string;
+  sampleHits: { _id: string; _index: string; _source: Record<string, any> }[];
+  deliveries: AlertDelivery[];
+  acknowledgedAt: string | null;
+  acknowledgedBy: string | null;
+}
+
+export interface RuleSnooze {
+  ruleId: string;
+  ruleName: string;
+  until: string;
+}
+
+interface Props {
+  events: AlertEvent[];
+  snoozes: RuleSnooze[];
+  canManage: boolean;
+  onAcknowledge: (id: string) => void;
+  onSnooze: (ruleId: string, until: string | null) => void;
+}
+
+const SNOOZE_OPTIONS = [
+  { label: '1 hour', hours: 1 },
+  { label: '4 hours', hours: 4 },
+  { label: '24 hours', hours: 24 },
+  { label: '7 days', hours: 24 * 7 }
+];
+
+function formatValue(value: number | null) {
+  if (value === null || !Number.isFinite(value)) return 'n/a';
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+}
+
+function deliveryClass(status: AlertDelivery['status']) {
+  if (status === 'sent') return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200';
+  if (status === 'failed') return 'bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-200';
+  return 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300';
+}
+
+export default function AlertsPanel({ events, snoozes, canManage, onAcknowledge, onSnooze }: Props) {
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+
+  return (
+    <div className="space-y-3 text-sm">
+      {snoozes.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {snoozes.map((snooze) => (
+            <span key={snooze.ruleId} className="inline-flex items-center gap-2 text-xs px-2 py-1 rounded bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200">
+              {snooze.ruleName} snoozed until {new Date(snooze.until).toLocaleString()}
+              {canManage && (
+                <button onClick={() => onSnooze(snooze.ruleId, null)} className="underline">Unsnooze</button>
+              )}
+            </span>
+          ))}
+        </div>
+      )}
+      {events.length === 0 && <p className="text-xs text-gray-500 dark:text-gray-400">No alerts have fired.</p>}
+      {events.map((event) => (
+        <div key={event.id} className={`border dark:border-gray-700 rounded p-2 ${event.acknowledgedAt ? 'opacity-70' : ''}`}>
+          <div className="flex flex-wrap items-start justify-between gap-2">
+            <div>
+              <div className="font-medium text-gray-800 dark:text-gray-100">
+                {event.ruleName}
+                {event.team && <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{event.team}</span>}
+              </div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">
+                {new Date(event.triggeredAt).toLocaleString()} · {event.indexPattern} · {event.condition} · value {formatValue(event.value)} over {event.windowMinutes}m
+              </div>
+              <div className="flex flex-wrap gap-1 mt-1">
+                {(event.deliveries || []).map((delivery, idx) => (
+                  <span
+                    key={`${event.id}-${idx}`}
+                    title={delivery.error || ''}
+                    className={`text-[11px] px-1.5 py-0.5 rounded ${deliveryClass(delivery.status)}`}
+                  >
+                    {delivery.name}: {delivery.status}
+                  </span>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-center gap-2 text-xs">
+              {event.acknowledgedAt ? (
+                <span className="text-gray-500 dark:text-gray-400">
+                  Acknowledged by {event.acknowledgedBy || 'unknown'} at {new Date(event.acknowledgedAt).toLocaleString()}
+                </span>
+              ) : canManage ? (
+                <button onClick={() => onAcknowledge(event.id)} className="px-2 py-1 rounded bg-blue-600 text-white">Acknowledge</button>
+              ) : (
+                <span className="text-red-600">Open</span>
+              )}
+              {canManage && (
+                <select
+                  value=""
+                  onChange={(e) => {
+                    const hours = Number(e.target.value);
+                    if (!hours) return;
+                    onSnooze(event.ruleId, new Date(Date.now() + hours * 60 * 60 * 1000).toISOString());
+                  }}
+                  className="px-2 py-1 border rounded dark:bg-gray-800 dark:border-gray-600 dark:text-white"
+                >
+                  <option value="">Snooze rule...</option>
+                  {SNOOZE_OPTIONS.map((option) => (
+                    <option key={option.hours} value={option.hours}>{option.label}</option>
+                  ))}
+                </select>
+              )}
+              {event.sampleHits?.length > 0 && (
+                <button
+                  onClick={() => setExpanded((prev) => ({ ...prev, [event.id]: !prev[event.id] }))}
+                  className="px-2 py-1 rounded bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200"
+                >
+                  {expanded[event.id] ? 'Hide samples' : `Samples (${event.sampleHits.length})`}
+                </button>
+              )}
+            </div>
+          </div>
+          {expanded[event.id] && (
+            <div className="mt-2 space-y-1">
+              {event.sampleHits.map((hit) => (
+                <pre key={hit._id} className="text-[11px] bg-gray-50 dark:bg-gray-900 dark:text-gray-200 rounded p-2 overflow-auto max-h-32 whitespace-pre-wrap break-all">
+                  {JSON.stringify(hit._source, null, 2)}
+                </pre>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
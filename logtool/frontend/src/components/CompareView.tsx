@@ -0,0 +1,118 @@
+import { ValueDelta, diffTopValues, formatDeltaPercent } from '../utils/compareRanges';
+
+export interface CompareRange {
+  start: string;
+  end: string;
+  total: number;
+  buckets: { key: number; count: number }[];
+  fields: { field: string; actualField: string; values: { value: string | number; count: number }[] }[];
+}
+
+// ranges[0] is the current range, ranges[1] the baseline.
+export interface CompareResult {
+  intervalMs: number;
+  ranges: CompareRange[];
+}
+
+interface Props {
+  result: CompareResult;
+  baselineLabel: string;
+}
+
+function formatRange(range: CompareRange) {
+  return `${new Date(range.start).toLocaleString()} – ${new Date(range.end).toLocaleString()}`;
+}
+
+function DeltaList({ title, entries, empty }: { title: string; entries: ValueDelta[]; empty: string }) {
+  return (
+    <div className="min-w-0">
+      <div className="text-[11px] uppercase tracking-wide text-gray-400 dark:text-gray-500 mb-1">{title}</div>
+      {entries.length === 0 && <div className="text-xs text-gray-400 dark:text-gray-500">{empty}</div>}
+      {entries.map((entry) => (
+        <div key={entry.value} className="flex items-center justify-between gap-2 text-xs">
+          <span className="truncate text-gray-700 dark:text-gray-200" title={entry.value}>{entry.value}</span>
+          <span className={`shrink-0 font-mono ${entry.delta > 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+            {entry.baseline} → {entry.current}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function CompareView({ result, baselineLabel }: Props) {
+  const [current, baseline] = result.ranges;
+  if (!current || !baseline) return null;
+  const delta = current.total - baseline.total;
+  // Buckets line up by position: both ranges have the same length and interval.
+  const bucketCount = Math.max(current.buckets.length, baseline.buckets.length);
+  const max = Math.max(1, ...current.buckets.map((bucket) => bucket.count), ...baseline.buckets.map((bucket) => bucket.count));
+  const fieldDeltas = current.fields.map((field) => diffTopValues(
+    field.field,
+    field.values,
+    baseline.fields.find((entry) => entry.field === field.field)?.values || []
+  ));
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
+        <div>
+          <div className="text-xs text-gray-500 dark:text-gray-400">Current</div>
+          <div className="text-lg font-semibold text-blue-600 dark:text-blue-400">{current.total.toLocaleString()} hits</div>
+          <div className="text-[11px] text-gray-400 dark:text-gray-500">{formatRange(current)}</div>
+        </div>
+        <div>
+          <div className="text-xs text-gray-500 dark:text-gray-400">Baseline ({baselineLabel})</div>
+          <div className="text-lg font-semibold text-gray-600 dark:text-gray-300">{baseline.total.toLocaleString()} hits</div>
+          <div className="text-[11px] text-gray-400 dark:text-gray-500">{formatRange(baseline)}</div>
+        </div>
+        <div>
+          <div className="text-xs text-gray-500 dark:text-gray-400">Change</div>
+          <div className={`text-lg font-semibold ${delta > 0 ? 'text-red-600 dark:text-red-400' : delta < 0 ? 'text-green-600 dark:text-green-400' : 'text-gray-600 dark:text-gray-300'}`}>
+            {delta > 0 ? '+' : ''}{delta.toLocaleString()} ({formatDeltaPercent(current.total, baseline.total)})
+          </div>
+        </div>
+      </div>
+
+      {bucketCount > 0 && (
+        <div>
+          <div className="h-24 flex items-end gap-px">
+            {Array.from({ length: bucketCount }, (_, idx) => {
+              const currentCount = current.buckets[idx]?.count || 0;
+              const baselineCount = baseline.buckets[idx]?.count || 0;
+              return (
+                <div
+                  key={idx}
+                  className="relative flex-1 min-w-0 h-full"
+                  title={`${current.buckets[idx] ? new Date(current.buckets[idx].key).toLocaleString() : ''}: ${currentCount} now, ${baselineCount} baseline`}
+                >
+                  <div className="absolute bottom-0 inset-x-0 rounded-t-sm bg-gray-300 dark:bg-gray-600" style={{ height: `${(baselineCount / max) * 100}%` }} />
+                  <div className="absolute bottom-0 inset-x-0 rounded-t-sm bg-blue-500/70" style={{ height: `${(currentCount / max) * 100}%` }} />
+                </div>
+              );
+            })}
+          </div>
+          <div className="flex gap-4 text-[10px] text-gray-500 dark:text-gray-400 mt-1">
+            <span className="flex items-center gap-1"><span className="inline-block h-2 w-2 bg-blue-500/70" />Current</span>
+            <span className="flex items-center gap-1"><span className="inline-block h-2 w-2 bg-gray-300 dark:bg-gray-600" />Baseline</span>
+          </div>
+        </div>
+      )}
+
+      {fieldDeltas.length > 0 && (
+        <div className="space-y-3">
+          {fieldDeltas.map((field) => (
+            <div key={field.field} className="border-t dark:border-gray-700 pt-2">
+              <div className="text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">{field.field}</div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <DeltaList title="New values" entries={field.newValues} empty="None" />
+                <DeltaList title="Vanished values" entries={field.vanished} empty="None" />
+                <DeltaList title="Biggest movers" entries={field.movers} empty="No changes" />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+interface ContextHit {
+  _id: string;
+  _index: string;
+  _source: Record<string, any>;
+}
+
+export interface ContextResponse {
+  timeField: string;
+  sameField: string | null;
+  sameValue: unknown;
+  anchor: ContextHit;
+  before: ContextHit[];
+  sameTime: ContextHit[];
+  after: ContextHit[];
+}
+
+interface Props {
+  data: ContextResponse | null;
+  loading: boolean;
+  error: string | null;
+  sameField: string;
+  size: number;
+  fieldOptions: string[];
+  onChange: (next: { sameField: string; size: number }) => void;
+  onClose: () => void;
+}
+
+const SIZE_OPTIONS = [5, 10, 25, 50, 100];
+
+function readTime(hit: ContextHit, timeField: string) {
+  const source = hit._source || {};
+  return source[timeField] ?? source.timestamp ?? source['@timestamp'] ?? '';
+}
+
+function readMessage(hit: ContextHit) {
+  const source = hit._source || {};
+  const value = source.log ?? source.message ?? source.msg ?? source.event?.original;
+  if (value === undefined || value === null) return JSON.stringify(source);
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+export default function ContextDrawer({ data, loading, error, sameField, size, fieldOptions, onChange, onClose }: Props) {
+  const rows = data
+    ? [
+      ...data.before.map((hit) => ({ hit, anchor: false })),
+      { hit: data.anchor, anchor: true },
+      ...data.sameTime.map((hit) => ({ hit, anchor: false })),
+      ...data.after.map((hit) => ({ hit, anchor: false }))
+    ]
+    : [];
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/40" onClick={onClose}>
+      <div
+        className="h-full w-full max-w-3xl bg-white dark:bg-gray-900 border-l dark:border-gray-700 flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex flex-wrap items-center justify-between gap-2 px-4 py-3 border-b dark:border-gray-700">
+          <div className="font-semibold text-gray-800 dark:text-gray-100">Surrounding logs</div>
+          <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600 dark:text-gray-300">
+            <label className="flex items-center gap-1">
+              Same
+              <input
+                list="context-field-options"
+                defaultValue={sameField}
+                onBlur={(e) => {
+                  if (e.target.value.trim() !== sameField) onChange({ sameField: e.target.value.trim(), size });
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+                }}
+                placeholder="any source"
+                className="w-36 px-2 py-1 border rounded dark:bg-gray-800 dark:border-gray-600 dark:text-white"
+              />
+              <datalist id="context-field-options">
+                {fieldOptions.map((field) => (
+                  <option key={field} value={field} />
+                ))}
+              </datalist>
+            </label>
+            <label className="flex items-center gap-1">
+              Lines each side
+              <select
+                value={size}
+                onChange={(e) => onChange({ sameField, size: Number(e.target.value) })}
+                className="px-2 py-1 border rounded dark:bg-gray-800 dark:border-gray-600 dark:text-white"
+              >
+                {SIZE_OPTIONS.map((option) => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
+              </select>
+            </label>
+            <button onClick={onClose} className="px-2 py-1 rounded bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200">Close</button>
+          </div>
+        </div>
+        {data?.sameField && (
+          <div className="px-4 py-2 text-xs text-gray-500 dark:text-gray-400 border-b dark:border-gray-700">
+            Only logs where {data.sameField} = {String(data.sameValue)}
+          </div>
+        )}
+        <div className="flex-1 overflow-auto p-2 font-mono text-xs">
+          {loading && <p className="p-2 text-gray-500">Loading context...</p>}
+          {error && <p className="p-2 text-red-600">{error}</p>}
+          {!loading && !error && rows.map(({ hit, anchor }) => (
+            <div
+              key={`${hit._index}-${hit._id}`}
+              ref={anchor ? (el) => el?.scrollIntoView({ block: 'center' }) : undefined}
+              className={`flex gap-3 px-2 py-1 rounded ${anchor ? 'bg-amber-100 dark:bg-amber-900/40 border border-amber-300 dark:border-amber-700' : 'hover:bg-gray-50 dark:hover:bg-gray-800'}`}
+            >
+              <span className="shrink-0 text-gray-500 dark:text-gray-400">{String(readTime(hit, data?.timeField || 'timestamp'))}</span>
+              <span className="text-gray-800 dark:text-gray-100 whitespace-pre-wrap break-all">{readMessage(hit)}</span>
+            </div>
+          ))}
+          {!loading && !error && data && rows.length === 1 && (
+            <p className="p-2 text-gray-500">No surrounding logs found.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+export interface FieldStats {
+  field: string;
+  actualField: string;
+  type: string;
+  total: number;
+  missing: number;
+  missingPercent: number;
+  values: { value: string | number | boolean; count: number }[];
+  numeric: {
+    min: number | null;
+    max: number | null;
+    avg: number | null;
+    percentiles: Record<string, number | null>;
+  } | null;
+}
+
+interface Props {
+  field: string;
+  stats: FieldStats | null;
+  loading: boolean;
+  error: string | null;
+  onFilter: (value: string) => void;
+  onClose: () => void;
+}
+
+function formatNumber(value: number | null | undefined) {
+  if (value === null || value === undefined || !Number.isFinite(value)) return 'n/a';
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+}
+
+export default function FieldStatsPopover({ field, stats, loading, error, onFilter, onClose }: Props) {
+  const maxCount = Math.max(1, ...(stats?.values || []).map((entry) => entry.count));
+
+  return (
+    <div className="mt-2 w-full max-w-md rounded-lg border dark:border-gray-700 bg-white dark:bg-gray-900 shadow-lg p-3 text-xs text-gray-700 dark:text-gray-200">
+      <div className="flex items-center justify-between mb-2">
+        <div className="font-semibold">
+          {field}
+          {stats && <span className="ml-2 font-normal text-gray-500 dark:text-gray-400">{stats.type}</span>}
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-700 dark:hover:text-gray-200" title="Close">×</button>
+      </div>
+      {loading && <p className="text-gray-500">Loading statistics...</p>}
+      {error && <p className="text-red-600">{error}</p>}
+      {stats && !loading && !error && (
+        <div className="space-y-2">
+          <div className="text-gray-500 dark:text-gray-400">
+            Missing in {stats.missing} of {stats.total} hits ({stats.missingPercent.toFixed(1)}%)
+          </div>
+          {stats.numeric && (
+            <div className="grid grid-cols-4 gap-2">
+              {[
+                ['min', stats.numeric.min],
+                ['avg', stats.numeric.avg],
+                ['max', stats.numeric.max],
+                ['p50', stats.numeric.percentiles['50.0']],
+                ['p90', stats.numeric.percentiles['90.0']],
+                ['p95', stats.numeric.percentiles['95.0']],
+                ['p99', stats.numeric.percentiles['99.0']]
+              ].map(([label, value]) => (
+                <div key={String(label)} className="rounded bg-gray-50 dark:bg-gray-800 px-2 py-1">
+                  <div className="text-[10px] uppercase text-gray-400">{label}</div>
+                  <div className="font-mono">{formatNumber(value as number | null)}</div>
+                </div>
+              ))}
+            </div>
+          )}
+          {stats.values.length === 0 && <p className="text-gray-500">No values in the current results.</p>}
+          {stats.values.map((entry) => (
+            <button
+              key={String(entry.value)}
+              onClick={() => onFilter(String(entry.value))}
+              className="w-full text-left"
+              title="Add as filter"
+            >
+              <div className="flex justify-between gap-2">
+                <span className="truncate font-mono">{String(entry.value)}</span>
+                <span className="text-gray-500 dark:text-gray-400">{entry.count}</span>
+              </div>
+              <div className="h-1 rounded bg-gray-100 dark:bg-gray-800">
+                <div className="h-1 rounded bg-blue-500" style={{ width: `${(entry.count / maxCount) * 100}%` }} />
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { useState } from 'react';
+
+export interface HistogramBucket {
+  key: number;
+  count: number;
+}
+
+interface Props {
+  buckets: HistogramBucket[];
+  intervalMs: number;
+  intervalLabel: string;
+  onSelectRange: (start: Date, end: Date) => void;
+}
+
+function formatBucketTime(key: number, intervalMs: number) {
+  const date = new Date(key);
+  return intervalMs >= 24 * 60 * 60 * 1000 ? date.toLocaleDateString() : date.toLocaleString();
+}
+
+export default function HitsHistogram({ buckets, intervalMs, intervalLabel, onSelectRange }: Props) {
+  const [dragStart, setDragStart] = useState<number | null>(null);
+  const [dragEnd, setDragEnd] = useState<number | null>(null);
+  const max = Math.max(1, ...buckets.map((bucket) => bucket.count));
+  const selectionMin = dragStart !== null && dragEnd !== null ? Math.min(dragStart, dragEnd) : null;
+  const selectionMax = dragStart !== null && dragEnd !== null ? Math.max(dragStart, dragEnd) : null;
+
+  const finishDrag = () => {
+    if (selectionMin !== null && selectionMax !== null && buckets[selectionMin] && buckets[selectionMax]) {
+      onSelectRange(new Date(buckets[selectionMin].key), new Date(buckets[selectionMax].key + intervalMs));
+    }
+    setDragStart(null);
+    setDragEnd(null);
+  };
+
+  if (buckets.length === 0) return null;
+
+  return (
+    <div className="select-none">
+      <div
+        className="h-24 flex items-end gap-px cursor-crosshair"
+        onMouseLeave={() => {
+          setDragStart(null);
+          setDragEnd(null);
+        }}
+        onMouseUp={finishDrag}
+      >
+        {buckets.map((bucket, idx) => {
+          const selected = selectionMin !== null && selectionMax !== null && idx >= selectionMin && idx <= selectionMax;
+          return (
+            <div
+              key={bucket.key}
+              className="flex-1 min-w-0 h-full flex items-end"
+              onMouseDown={(e) => {
+                e.preventDefault();
+                setDragStart(idx);
+                setDragEnd(idx);
+              }}
+              onMouseEnter={() => {
+                if (dragStart !== null) setDragEnd(idx);
+              }}
+              title={`${formatBucketTime(bucket.key, intervalMs)}: ${bucket.count} hits`}
+            >
+              <div
+                className={`w-full rounded-t-sm ${selected ? 'bg-amber-500' : 'bg-blue-500 hover:bg-blue-600'}`}
+                style={{ height: `${bucket.count > 0 ? Math.max(2, (bucket.count / max) * 100) : 0}%` }}
+              />
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex justify-between text-[10px] text-gray-500 dark:text-gray-400 mt-1">
+        <span>{formatBucketTime(buckets[0].key, intervalMs)}</span>
+        <span>{intervalLabel} per bar · drag to zoom</span>
+        <span>{formatBucketTime(buckets[buckets.length - 1].key, intervalMs)}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import { joinIndexPatterns, splitIndexPatterns } from '../utils/indexPatterns';
+
+interface Props {
+  value: string;
+  options: { value: string; label: string }[];
+  onChange: (value: string) => void;
+}
+
+const optionLabel = (option: { value: string; label: string }) => (option.value === '*' ? 'All Indices' : option.label);
+
+export default function IndexPatternPicker({ value, options, onChange }: Props) {
+  const [open, setOpen] = useState(false);
+  const selected = splitIndexPatterns(value);
+  const labelFor = (pattern: string) => {
+    const option = options.find((entry) => entry.value === pattern);
+    return option ? optionLabel(option) : pattern;
+  };
+
+  // At least one pattern stays selected.
+  const toggle = (pattern: string) => {
+    const next = selected.includes(pattern)
+      ? selected.filter((entry) => entry !== pattern)
+      : [...selected, pattern];
+    if (next.length > 0) onChange(joinIndexPatterns(next));
+  };
+
+  return (
+    <div className="relative w-full md:w-64">
+      <button
+        type="button"
+        onClick={() => setOpen((prev) => !prev)}
+        className="w-full px-3 py-2 border rounded text-left truncate dark:bg-gray-800 dark:border-gray-600 dark:text-white"
+        title={selected.join(', ')}
+      >
+        {selected.length > 1 ? `${selected.length} patterns: ${selected.map(labelFor).join(', ')}` : labelFor(selected[0] || '')}
+        <span className="float-right text-gray-400">▾</span>
+      </button>
+      {open && (
+        <>
+          <div className="fixed inset-0 z-20" onClick={() => setOpen(false)} />
+          <div className="absolute z-30 left-0 right-0 mt-1 max-h-72 overflow-auto rounded-lg border dark:border-gray-700 bg-white dark:bg-gray-800 shadow-lg text-sm">
+            {options.map((option) => (
+              <div key={option.value} className="flex items-center gap-2 px-3 py-1 hover:bg-gray-50 dark:hover:bg-gray-900">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(option.value)}
+                  onChange={() => toggle(option.value)}
+                  title="Search this pattern too"
+                />
+                <button
+                  type="button"
+                  onClick={() => {
+                    onChange(option.value);
+                    setOpen(false);
+                  }}
+                  className="flex-1 text-left truncate text-gray-800 dark:text-gray-100"
+                  title="Search only this pattern"
+                >
+                  {optionLabel(option)}
+                </button>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import { PATTERN_PLACEHOLDER } from '../utils/logPatterns';
+
+export interface LogPattern {
+  template: string;
+  count: number;
+  firstSeen: string | null;
+  lastSeen: string | null;
+  samples: { _id: string; _index: string; timestamp: string | null; message: string }[];
+}
+
+export interface PatternsResult {
+  field: string;
+  sampled: number;
+  total: number;
+  patterns: LogPattern[];
+}
+
+interface Props {
+  result: PatternsResult;
+  onSelect: (pattern: LogPattern) => void;
+}
+
+function formatSeen(value: string | null) {
+  return value ? new Date(value).toLocaleString() : '—';
+}
+
+// Placeholders are shown as chips so the fixed text stands out.
+function renderTemplate(template: string) {
+  const parts: (string | { placeholder: string })[] = [];
+  let pos = 0;
+  template.replace(PATTERN_PLACEHOLDER, (match, offset: number) => {
+    if (offset > pos) parts.push(template.slice(pos, offset));
+    parts.push({ placeholder: match });
+    pos = offset + match.length;
+    return match;
+  });
+  if (pos < template.length) parts.push(template.slice(pos));
+  return parts.map((part, idx) => (typeof part === 'string'
+    ? <span key={idx}>{part}</span>
+    : <span key={idx} className="mx-0.5 rounded bg-purple-100 dark:bg-purple-900/40 px-1 text-purple-700 dark:text-purple-200">{part.placeholder}</span>));
+}
+
+export default function PatternsView({ result, onSelect }: Props) {
+  if (result.patterns.length === 0) {
+    return <p className="text-center text-gray-500 dark:text-gray-400">No {result.field} values to group.</p>;
+  }
+  return (
+    <div className="space-y-2">
+      <div className="text-xs text-gray-500 dark:text-gray-400">
+        {result.patterns.length} pattern{result.patterns.length === 1 ? '' : 's'} in the newest {result.sampled.toLocaleString()} of {result.total.toLocaleString()} hits · click a pattern to filter to it
+      </div>
+      {result.patterns.map((pattern) => (
+        <div key={pattern.template} className="bg-white dark:bg-gray-800 p-3 rounded-lg shadow-sm border dark:border-gray-700">
+          <div className="flex items-start gap-3">
+            <div className="shrink-0 w-20 text-right">
+              <div className="text-sm font-semibold text-gray-800 dark:text-gray-100">{pattern.count.toLocaleString()}</div>
+              <div className="text-[11px] text-gray-500 dark:text-gray-400">{((pattern.count / Math.max(result.sampled, 1)) * 100).toFixed(1)}%</div>
+            </div>
+            <div className="flex-1 min-w-0">
+              <button
+                onClick={() => onSelect(pattern)}
+                className="w-full text-left font-mono text-xs break-all text-gray-800 dark:text-gray-100 hover:text-blue-600 dark:hover:text-blue-400"
+                title="Filter results to this pattern"
+              >
+                {renderTemplate(pattern.template)}
+              </button>
+              <div className="mt-1 text-[11px] text-gray-500 dark:text-gray-400">
+                First seen {formatSeen(pattern.firstSeen)} · last seen {formatSeen(pattern.lastSeen)}
+              </div>
+              <details className="mt-1">
+                <summary className="cursor-pointer text-[11px] text-gray-500 dark:text-gray-400">Sample hits ({pattern.samples.length})</summary>
+                <div className="mt-1 space-y-1">
+                  {pattern.samples.map((sample) => (
+                    <div key={`${sample._index}-${sample._id}`} className="font-mono text-[11px] break-all text-gray-600 dark:text-gray-300">
+                      <span className="text-gray-400 dark:text-gray-500">{sample.timestamp ? new Date(sample.timestamp).toLocaleString() : ''}</span> {sample.message}
+                    </div>
+                  ))}
+                </div>
+              </details>
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  AutocompleteContext,
+  QuerySuggestion,
+  applySuggestion,
+  getAutocompleteContext,
+  suggestFields,
+  suggestValues
+} from '../utils/queryAutocomplete';
+import { QueryIssue } from '../utils/queryValidator';
+
+interface Props {
+  value: string;
+  onChange: (value: string) => void;
+  fields: { name: string; type: string }[];
+  fieldLabels: Record<string, { label?: string; description?: string }>;
+  loadValues: (field: string, prefix: string) => Promise<string[]>;
+  issues?: QueryIssue[];
+  suggest?: boolean;
+  placeholder?: string;
+  className?: string;
+  autoFocus?: boolean;
+}
+
+const VALUE_DEBOUNCE_MS = 150;
+
+// Splits the query into plain and flagged segments for the underline overlay.
+// Issues at the very end of the input mark the last character.
+function buildSegments(value: string, issues: QueryIssue[]) {
+  const segments: { text: string; severity: QueryIssue['severity'] | null }[] = [];
+  let pos = 0;
+  issues.forEach((issue) => {
+    const start = Math.max(pos, Math.min(issue.start, value.length - 1));
+    const end = Math.max(start + 1, Math.min(issue.end, value.length));
+    if (start < pos || start >= value.length) return;
+    if (start > pos) segments.push({ text: value.slice(pos, start), severity: null });
+    segments.push({ text: value.slice(start, end), severity: issue.severity });
+    pos = end;
+  });
+  if (pos < value.length) segments.push({ text: value.slice(pos), severity: null });
+  return segments;
+}
+
+export default function QueryInput({ value, onChange, fields, fieldLabels, loadValues, issues = [], suggest = true, placeholder, className, autoFocus }: Props) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const requestRef = useRef(0);
+  const timerRef = useRef<number | null>(null);
+  const [context, setContext] = useState<AutocompleteContext | null>(null);
+  const [suggestions, setSuggestions] = useState<QuerySuggestion[]>([]);
+  // -1 until the user arrows into the list, so Enter still submits a plain search.
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  useEffect(() => () => {
+    if (timerRef.current) window.clearTimeout(timerRef.current);
+  }, []);
+
+  const close = () => {
+    requestRef.current += 1;
+    if (timerRef.current) window.clearTimeout(timerRef.current);
+    setContext(null);
+    setSuggestions([]);
+  };
+
+  const refresh = (text: string, cursor: number) => {
+    const next = suggest ? getAutocompleteContext(text, cursor) : null;
+    const request = ++requestRef.current;
+    if (timerRef.current) window.clearTimeout(timerRef.current);
+    setContext(next);
+    setActiveIndex(-1);
+    if (!next) {
+      setSuggestions([]);
+      return;
+    }
+    if (next.kind === 'field') {
+      setSuggestions(suggestFields(next, fields, fieldLabels, text.slice(0, next.start)));
+      return;
+    }
+    setSuggestions(suggestValues(next, []));
+    const field = next.field || '';
+    timerRef.current = window.setTimeout(() => {
+      loadValues(field, next.token).then((values) => {
+        if (requestRef.current === request) setSuggestions(suggestValues(next, values));
+      });
+    }, VALUE_DEBOUNCE_MS);
+  };
+
+  const accept = (suggestion: QuerySuggestion) => {
+    if (!context) return;
+    const next = applySuggestion(value, context, suggestion);
+    onChange(next.text);
+    window.requestAnimationFrame(() => {
+      inputRef.current?.setSelectionRange(next.cursor, next.cursor);
+    });
+    refresh(next.text, next.cursor);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return;
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex((idx) => (idx + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex((idx) => (idx <= 0 ? suggestions.length - 1 : idx - 1));
+    } else if (e.key === 'Tab' || (e.key === 'Enter' && activeIndex >= 0)) {
+      e.preventDefault();
+      accept(suggestions[Math.min(Math.max(activeIndex, 0), suggestions.length - 1)]);
+    } else if (e.key === 'Enter') {
+      close();
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      close();
+    }
+  };
+
+  return (
+    <div className="relative flex-grow">
+      <input
+        ref={inputRef}
+        type="text"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          refresh(e.target.value, e.target.selectionStart ?? e.target.value.length);
+        }}
+        onClick={(e) => refresh(value, e.currentTarget.selectionStart ?? value.length)}
+        onKeyDown={handleKeyDown}
+        onKeyUp={(e) => {
+          if (['ArrowLeft', 'ArrowRight', 'Home', 'End'].includes(e.key)) {
+            refresh(value, e.currentTarget.selectionStart ?? value.length);
+          }
+        }}
+        onBlur={close}
+        onScroll={(e) => {
+          if (overlayRef.current) overlayRef.current.scrollLeft = e.currentTarget.scrollLeft;
+        }}
+        placeholder={placeholder}
+        className={className}
+        autoFocus={autoFocus}
+        autoComplete="off"
+        spellCheck={false}
+      />
+      {issues.length > 0 && (
+        <div
+          ref={overlayRef}
+          aria-hidden
+          className="absolute inset-0 px-4 py-2 border border-transparent overflow-hidden whitespace-pre pointer-events-none text-transparent"
+        >
+          {buildSegments(value, issues).map((segment, idx) => (
+            <span
+              key={idx}
+              className={segment.severity
+                ? `underline decoration-wavy ${segment.severity === 'error' ? 'decoration-red-500' : 'decoration-amber-500'}`
+                : ''}
+            >
+              {segment.text}
+            </span>
+          ))}
+        </div>
+      )}
+      {suggestions.length > 0 && (
+        <ul className="absolute z-30 left-0 right-0 mt-1 max-h-72 overflow-auto rounded-lg border dark:border-gray-700 bg-white dark:bg-gray-800 shadow-lg text-sm">
+          {suggestions.map((suggestion, idx) => (
+            <li
+              key={`${suggestion.kind}-${suggestion.label}`}
+              onMouseDown={(e) => {
+                e.preventDefault();
+                accept(suggestion);
+              }}
+              onMouseEnter={() => setActiveIndex(idx)}
+              className={`flex items-center justify-between gap-3 px-3 py-1 cursor-pointer ${idx === activeIndex ? 'bg-blue-50 dark:bg-blue-900/40' : ''}`}
+            >
+              <span className="font-mono truncate text-gray-800 dark:text-gray-100">{suggestion.label}</span>
+              <span className="shrink-0 text-xs text-gray-500 dark:text-gray-400">
+                {suggestion.detail || suggestion.kind}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
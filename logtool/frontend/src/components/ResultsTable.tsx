@@ -0,0 +1,198 @@
+import { useState } from 'react';
+
+export interface TableColumn {
+  field: string;
+  width: number;
+}
+
+export interface TableSort {
+  field: string;
+  sortField: string;
+  type: string;
+  order: 'asc' | 'desc';
+}
+
+export interface IndexField {
+  name: string;
+  type: string;
+  aggregatable: boolean;
+  searchable: boolean;
+}
+
+interface Row {
+  _id: string;
+  _index?: string;
+  _source: Record<string, any>;
+}
+
+interface Props {
+  rows: Row[];
+  columns: TableColumn[];
+  fields: IndexField[];
+  sort: TableSort | null;
+  fieldLabels: Record<string, { label?: string; description?: string }>;
+  getValue: (source: Record<string, any>, field: string) => unknown;
+  onColumnsChange: (columns: TableColumn[]) => void;
+  onSortChange: (sort: TableSort | null) => void;
+  // Leading column with each row's source index, for multi-index searches.
+  showIndex?: boolean;
+}
+
+const MIN_WIDTH = 60;
+const INDEX_COLUMN_WIDTH = 140;
+
+// Text fields sort on their keyword sub-field when the mapping has one.
+function getSortTarget(fields: IndexField[], name: string) {
+  const field = fields.find((entry) => entry.name === name);
+  if (field?.aggregatable) return { sortField: field.name, type: field.type };
+  const keyword = fields.find((entry) => entry.name === `${name}.keyword`);
+  if (keyword?.aggregatable) return { sortField: keyword.name, type: keyword.type };
+  return null;
+}
+
+function formatCell(value: unknown) {
+  if (value === undefined || value === null || value === '') return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+export default function ResultsTable({ rows, columns, fields, sort, fieldLabels, getValue, onColumnsChange, onSortChange, showIndex = false }: Props) {
+  const [newColumn, setNewColumn] = useState('');
+  // Width of the column being dragged; saved through onColumnsChange on release.
+  const [resizing, setResizing] = useState<{ idx: number; width: number } | null>(null);
+  const shownColumns = resizing
+    ? columns.map((column, i) => (i === resizing.idx ? { ...column, width: resizing.width } : column))
+    : columns;
+  const chosen = new Set(columns.map((column) => column.field));
+  const addable = fields.filter((field) => !chosen.has(field.name) && !field.name.endsWith('.keyword'));
+
+  const addColumn = (name: string) => {
+    const field = name.trim();
+    if (!field || chosen.has(field)) return;
+    onColumnsChange([...columns, { field, width: 180 }]);
+    setNewColumn('');
+  };
+
+  const moveColumn = (idx: number, delta: number) => {
+    const target = idx + delta;
+    if (target < 0 || target >= columns.length) return;
+    const next = columns.slice();
+    [next[idx], next[target]] = [next[target], next[idx]];
+    onColumnsChange(next);
+  };
+
+  const startResize = (idx: number, e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const startX = e.clientX;
+    const startWidth = columns[idx].width;
+    let width = startWidth;
+    const onMove = (event: MouseEvent) => {
+      width = Math.max(MIN_WIDTH, startWidth + event.clientX - startX);
+      setResizing({ idx, width });
+    };
+    const onUp = () => {
+      window.removeEventListener('mousemove', onMove);
+      window.removeEventListener('mouseup', onUp);
+      setResizing(null);
+      if (width !== startWidth) onColumnsChange(columns.map((column, i) => (i === idx ? { ...column, width } : column)));
+    };
+    window.addEventListener('mousemove', onMove);
+    window.addEventListener('mouseup', onUp);
+  };
+
+  const toggleSort = (name: string) => {
+    const target = getSortTarget(fields, name);
+    if (!target) return;
+    if (sort?.field !== name) {
+      onSortChange({ field: name, ...target, order: 'desc' });
+    } else if (sort.order === 'desc') {
+      onSortChange({ ...sort, order: 'asc' });
+    } else {
+      onSortChange(null);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <input
+          list="results-table-fields"
+          value={newColumn}
+          onChange={(e) => setNewColumn(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') addColumn(newColumn);
+          }}
+          placeholder="Add column..."
+          className="w-48 px-2 py-1 border rounded dark:bg-gray-800 dark:border-gray-600 dark:text-white"
+        />
+        <datalist id="results-table-fields">
+          {addable.map((field) => (
+            <option key={field.name} value={field.name}>{fieldLabels[field.name]?.label || field.type}</option>
+          ))}
+        </datalist>
+        <button onClick={() => addColumn(newColumn)} className="px-2 py-1 rounded bg-blue-600 text-white">Add</button>
+        {sort && (
+          <span className="text-gray-500 dark:text-gray-400">
+            Sorted by {sort.field} ({sort.order}) · <button onClick={() => onSortChange(null)} className="underline">default order</button>
+          </span>
+        )}
+      </div>
+      <div className="overflow-auto border dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800">
+        <table className="text-xs table-fixed border-collapse" style={{ width: shownColumns.reduce((sum, column) => sum + column.width, showIndex ? INDEX_COLUMN_WIDTH : 0) }}>
+          <thead className="bg-gray-50 dark:bg-gray-900 text-gray-600 dark:text-gray-300">
+            <tr>
+              {showIndex && (
+                <th style={{ width: INDEX_COLUMN_WIDTH }} className="text-left font-medium px-2 py-1 border-b dark:border-gray-700">Index</th>
+              )}
+              {shownColumns.map((column, idx) => {
+                const sortable = Boolean(getSortTarget(fields, column.field));
+                const sorted = sort?.field === column.field;
+                return (
+                  <th key={column.field} style={{ width: column.width }} className="relative text-left font-medium px-2 py-1 border-b dark:border-gray-700">
+                    <div className="flex items-center gap-1 pr-2">
+                      <button
+                        onClick={() => toggleSort(column.field)}
+                        disabled={!sortable}
+                        title={sortable ? 'Sort by this column' : 'Not sortable'}
+                        className="truncate text-left disabled:cursor-default"
+                      >
+                        {fieldLabels[column.field]?.label || column.field}
+                        {sorted ? (sort?.order === 'desc' ? ' ▼' : ' ▲') : ''}
+                      </button>
+                      <span className="ml-auto flex shrink-0 gap-0.5 text-gray-400">
+                        <button onClick={() => moveColumn(idx, -1)} title="Move left">◂</button>
+                        <button onClick={() => moveColumn(idx, 1)} title="Move right">▸</button>
+                        <button onClick={() => onColumnsChange(columns.filter((_, i) => i !== idx))} title="Remove column">×</button>
+                      </span>
+                    </div>
+                    <div
+                      onMouseDown={(e) => startResize(idx, e)}
+                      className="absolute top-0 right-0 h-full w-1.5 cursor-col-resize hover:bg-blue-400"
+                    />
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody className="text-gray-800 dark:text-gray-100 font-mono">
+            {rows.map((row) => (
+              <tr key={row._id} className="border-b dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-900">
+                {showIndex && (
+                  <td title={row._index} className="px-2 py-1 truncate">
+                    <span className="rounded-full bg-indigo-50 dark:bg-indigo-900/40 px-2 py-0.5 text-indigo-700 dark:text-indigo-200">{row._index}</span>
+                  </td>
+                )}
+                {columns.map((column) => {
+                  const text = formatCell(getValue(row._source || {}, column.field));
+                  return (
+                    <td key={column.field} title={text} className="px-2 py-1 truncate">{text}</td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
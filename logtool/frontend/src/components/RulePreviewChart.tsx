@@ -0,0 +1,53 @@
+export interface RulePreview {
+  timeField: string;
+  intervalMinutes: number;
+  condition: string;
+  threshold: number;
+  buckets: { time: string; value: number | null; fired: boolean }[];
+  fireCount: number;
+}
+
+interface Props {
+  preview: RulePreview;
+}
+
+function formatValue(value: number | null) {
+  if (value === null || !Number.isFinite(value)) return 'n/a';
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+}
+
+export default function RulePreviewChart({ preview }: Props) {
+  const values = preview.buckets.map((bucket) => bucket.value ?? 0);
+  const max = Math.max(preview.threshold, ...values, 1);
+  const thresholdPercent = Math.min(100, (preview.threshold / max) * 100);
+  const lastFires = preview.buckets.filter((bucket) => bucket.fired).slice(-5).reverse();
+
+  return (
+    <div className="space-y-2 text-xs text-gray-600 dark:text-gray-300">
+      <div>
+        Would have fired <span className="font-semibold">{preview.fireCount}</span> time{preview.fireCount === 1 ? '' : 's'} in the last 7 days
+        ({preview.condition}, {preview.intervalMinutes}m buckets on {preview.timeField}).
+      </div>
+      <div className="relative h-24 flex items-end gap-px bg-gray-50 dark:bg-gray-900 rounded p-1">
+        <div
+          className="absolute left-0 right-0 border-t border-dashed border-red-400"
+          style={{ bottom: `${thresholdPercent}%` }}
+          title={`Threshold ${preview.threshold}`}
+        />
+        {preview.buckets.map((bucket) => (
+          <div
+            key={bucket.time}
+            className={`flex-1 min-w-0 ${bucket.fired ? 'bg-red-500' : 'bg-blue-400'}`}
+            style={{ height: `${Math.max(1, ((bucket.value ?? 0) / max) * 100)}%` }}
+            title={`${new Date(bucket.time).toLocaleString()}: ${formatValue(bucket.value)}`}
+          />
+        ))}
+      </div>
+      {lastFires.length > 0 && (
+        <div>
+          Most recent: {lastFires.map((bucket) => `${new Date(bucket.time).toLocaleString()} (${formatValue(bucket.value)})`).join(', ')}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+export interface SqlResult {
+  schema: { name: string; alias?: string; type: string }[];
+  datarows: unknown[][];
+  total: number;
+  size: number;
+}
+
+interface Props {
+  result: SqlResult;
+}
+
+function formatCell(value: unknown) {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+export default function SqlResultsTable({ result }: Props) {
+  if (result.datarows.length === 0) {
+    return <p className="text-center text-gray-500 dark:text-gray-400">No rows returned.</p>;
+  }
+  return (
+    <div className="space-y-2">
+      <div className="text-xs text-gray-500 dark:text-gray-400">
+        {result.size < result.total ? `Showing ${result.size} of ${result.total} rows` : `${result.size} rows`}
+      </div>
+      <div className="overflow-auto max-h-[70vh] border dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800">
+        <table className="min-w-full text-xs border-collapse">
+          <thead className="sticky top-0 bg-gray-50 dark:bg-gray-900 text-gray-600 dark:text-gray-300">
+            <tr>
+              {result.schema.map((column, idx) => (
+                <th key={`${column.name}-${idx}`} className="text-left font-medium px-2 py-1 border-b dark:border-gray-700 whitespace-nowrap">
+                  {column.alias || column.name}
+                  <span className="ml-1 font-normal text-gray-400">{column.type}</span>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="text-gray-800 dark:text-gray-100 font-mono">
+            {result.datarows.map((row, rowIdx) => (
+              <tr key={rowIdx} className="border-b dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-900">
+                {row.map((value, idx) => {
+                  const text = formatCell(value);
+                  return (
+                    <td key={idx} title={text} className="px-2 py-1 max-w-xs truncate">{text}</td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+export type CompareBaseline = '1d' | '7d' | 'previous';
+
+export const COMPARE_BASELINES: { value: CompareBaseline; label: string }[] = [
+  { value: '1d', label: 'Same range yesterday' },
+  { value: '7d', label: 'Same range last week' },
+  { value: 'previous', label: 'Previous period' }
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const getBaselineRange = (range: { start: Date; end: Date }, baseline: CompareBaseline) => {
+  const offset = baseline === 'previous'
+    ? range.end.getTime() - range.start.getTime()
+    : baseline === '7d' ? 7 * DAY_MS : DAY_MS;
+  return { start: new Date(range.start.getTime() - offset), end: new Date(range.end.getTime() - offset) };
+};
+
+export interface ValueDelta {
+  value: string;
+  current: number;
+  baseline: number;
+  delta: number;
+}
+
+export interface FieldDelta {
+  field: string;
+  newValues: ValueDelta[];
+  vanished: ValueDelta[];
+  movers: ValueDelta[];
+}
+
+const MAX_MOVERS = 5;
+
+// Both sides are top-N lists, so "new" means absent from the baseline's top
+// values rather than never seen before.
+export const diffTopValues = (
+  field: string,
+  current: { value: string | number; count: number }[],
+  baseline: { value: string | number; count: number }[]
+): FieldDelta => {
+  const counts = new Map<string, { current: number; baseline: number }>();
+  current.forEach((entry) => counts.set(String(entry.value), { current: entry.count, baseline: 0 }));
+  baseline.forEach((entry) => {
+    const key = String(entry.value);
+    counts.set(key, { current: counts.get(key)?.current || 0, baseline: entry.count });
+  });
+  const deltas = Array.from(counts.entries()).map(([value, count]) => ({
+    value,
+    current: count.current,
+    baseline: count.baseline,
+    delta: count.current - count.baseline
+  }));
+  return {
+    field,
+    newValues: deltas.filter((entry) => entry.baseline === 0).sort((a, b) => b.current - a.current),
+    vanished: deltas.filter((entry) => entry.current === 0).sort((a, b) => b.baseline - a.baseline),
+    movers: deltas
+      .filter((entry) => entry.current > 0 && entry.baseline > 0 && entry.delta !== 0)
+      .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta))
+      .slice(0, MAX_MOVERS)
+  };
+};
+
+export const formatDeltaPercent = (current: number, baseline: number) => {
+  if (baseline === 0) return current === 0 ? '0%' : 'new';
+  const percent = ((current - baseline) / baseline) * 100;
+  return `${percent > 0 ? '+' : ''}${percent.toFixed(percent !== 0 && Math.abs(percent) < 10 ? 1 : 0)}%`;
+};
@@ -0,0 +1,7 @@
+// Several patterns can be searched together; they travel as one
+// comma-joined target ("app-logs-*,vector-*"), which OpenSearch accepts as is.
+export const splitIndexPatterns = (indexPattern: string) =>
+  indexPattern.split(',').map((part) => part.trim()).filter((part) => part.length > 0);
+
+export const joinIndexPatterns = (patterns: string[]) =>
+  patterns.filter((pattern, idx) => pattern && patterns.indexOf(pattern) === idx).join(',');
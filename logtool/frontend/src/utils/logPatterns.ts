@@ -0,0 +1,16 @@
+import { escapeFieldName } from './queryBuilder';
+
+// Placeholders the proxy puts where message parts vary between lines.
+export const PATTERN_PLACEHOLDER = /<(?:STR|UUID|TIME|IP|HEX|NUM)>/g;
+
+// Turns a template back into a query: every literal run between placeholders
+// must appear as a phrase. Returns null when nothing literal is left to match.
+export const patternToQuery = (field: string, template: string) => {
+  const phrases = template
+    .split(PATTERN_PLACEHOLDER)
+    .map((part) => part.trim())
+    .filter((part) => /[A-Za-z0-9]/.test(part));
+  if (phrases.length === 0) return null;
+  const name = escapeFieldName(field);
+  return phrases.map((phrase) => `${name}:"${phrase.replace(/["\\]/g, '\\$&')}"`).join(' AND ');
+};
@@ -0,0 +1,129 @@
+import { escapeFieldName, formatQueryValue } from './queryBuilder';
+
+export interface AutocompleteContext {
+  kind: 'field' | 'value';
+  // Text being completed: a partial field name, or the value typed after `field:`.
+  token: string;
+  field?: string;
+  start: number;
+  end: number;
+}
+
+export interface QuerySuggestion {
+  kind: 'field' | 'operator' | 'value' | 'keyword';
+  label: string;
+  detail?: string;
+  insert: string;
+  // Caret position inside `insert`; defaults to its end.
+  caret?: number;
+}
+
+export const VALUE_OPERATORS: QuerySuggestion[] = [
+  { kind: 'operator', label: '*', detail: 'has any value', insert: '* ' },
+  { kind: 'operator', label: '"…"', detail: 'exact phrase', insert: '""', caret: 1 },
+  { kind: 'operator', label: '>', detail: 'greater than', insert: '>' },
+  { kind: 'operator', label: '>=', detail: 'at least', insert: '>=' },
+  { kind: 'operator', label: '<', detail: 'less than', insert: '<' },
+  { kind: 'operator', label: '<=', detail: 'at most', insert: '<=' },
+  { kind: 'operator', label: '[a TO b]', detail: 'range, inclusive', insert: '[ TO ]', caret: 1 },
+  { kind: 'operator', label: '/…/', detail: 'regular expression', insert: '//', caret: 1 }
+];
+
+const BOOLEAN_KEYWORDS = ['AND', 'OR', 'NOT'];
+
+const isBoundary = (ch: string) => /[\s()]/.test(ch);
+
+const findUnescaped = (text: string, ch: string) => {
+  for (let i = 0; i < text.length; i += 1) {
+    if (text[i] === '\\') {
+      i += 1;
+    } else if (text[i] === ch) {
+      return i;
+    }
+  }
+  return -1;
+};
+
+// Position of an unterminated opening quote before the caret, if any.
+const findOpenQuote = (text: string) => {
+  let open = -1;
+  for (let i = 0; i < text.length; i += 1) {
+    if (text[i] === '\\') {
+      i += 1;
+    } else if (text[i] === '"') {
+      open = open === -1 ? i : -1;
+    }
+  }
+  return open;
+};
+
+export const getAutocompleteContext = (text: string, cursor: number): AutocompleteContext | null => {
+  const before = text.slice(0, cursor);
+  const openQuote = findOpenQuote(before);
+  let start = openQuote === -1 ? cursor : openQuote;
+  while (start > 0 && !isBoundary(text[start - 1])) start -= 1;
+  let end = cursor;
+  if (openQuote === -1) {
+    while (end < text.length && !isBoundary(text[end])) end += 1;
+  }
+  while (start < cursor && /[-+!]/.test(text[start])) start += 1;
+  const token = text.slice(start, cursor);
+
+  const colon = findUnescaped(token, ':');
+  if (colon === -1) {
+    return token ? { kind: 'field', token, start, end } : null;
+  }
+  const field = token.slice(0, colon).replace(/\\(.)/g, '$1');
+  const value = token.slice(colon + 1);
+  // Ranges, comparisons and regexes are left alone once started.
+  if (!field || /^[[{<>/]/.test(value)) return null;
+  return {
+    kind: 'value',
+    field,
+    token: value.startsWith('"') ? value.slice(1) : value,
+    start: start + colon + 1,
+    end
+  };
+};
+
+export const suggestFields = (
+  context: AutocompleteContext,
+  fields: { name: string; type: string }[],
+  labels: Record<string, { label?: string }>,
+  textBefore: string,
+  limit = 10
+): QuerySuggestion[] => {
+  const needle = context.token.toLowerCase();
+  const matches = fields
+    .filter((field) => !field.name.endsWith('.keyword'))
+    .filter((field) => field.name.toLowerCase().includes(needle) || (labels[field.name]?.label || '').toLowerCase().includes(needle))
+    .sort((a, b) => Number(!a.name.toLowerCase().startsWith(needle)) - Number(!b.name.toLowerCase().startsWith(needle)))
+    .slice(0, limit)
+    .map<QuerySuggestion>((field) => ({
+      kind: 'field',
+      label: field.name,
+      detail: labels[field.name]?.label || field.type,
+      insert: `${escapeFieldName(field.name)}:`
+    }));
+  // Boolean operators only make sense between two clauses.
+  const keywords = textBefore.trim()
+    ? BOOLEAN_KEYWORDS
+      .filter((keyword) => keyword.startsWith(context.token) && keyword !== context.token)
+      .map<QuerySuggestion>((keyword) => ({ kind: 'keyword', label: keyword, insert: `${keyword} ` }))
+    : [];
+  return [...keywords, ...matches];
+};
+
+export const suggestValues = (context: AutocompleteContext, values: string[]): QuerySuggestion[] => {
+  const operators = context.token ? [] : VALUE_OPERATORS;
+  return [
+    ...operators,
+    ...values.map<QuerySuggestion>((value) => ({ kind: 'value', label: value, insert: `${formatQueryValue(value)} ` }))
+  ];
+};
+
+export const applySuggestion = (text: string, context: AutocompleteContext, suggestion: QuerySuggestion) => {
+  const next = text.slice(0, context.start) + suggestion.insert + text.slice(context.end);
+  const caret = context.start + (suggestion.caret ?? suggestion.insert.length);
+  return { text: next, cursor: caret };
+};
@@ -0,0 +1,400 @@
+export interface BuilderChip {
+  id?: string;
+  field: string;
+  operator: 'is' | 'is_not' | 'contains' | 'exists' | 'not_exists' | 'gt' | 'lt' | 'between' | 'one_of' | 'regex';
+  value?: string;
+  valueTo?: string;
+  values?: string[];
+}
+
+export interface BuilderGroup {
+  id: string;
+  join: 'AND' | 'OR';
+  children: BuilderNode[];
+}
+
+export type BuilderNode = BuilderChip | BuilderGroup;
+
+export const isBuilderGroup = (node: BuilderNode): node is BuilderGroup => 'children' in node;
+
+const createNodeId = () => `node-${Date.now()}-${Math.random().toString(16).slice(2)}`;
+
+export const createBuilderGroup = (join: 'AND' | 'OR' = 'AND', children: BuilderNode[] = []): BuilderGroup => ({
+  id: createNodeId(),
+  join,
+  children
+});
+
+export const withNodeId = (chip: BuilderChip): BuilderChip => ({ ...chip, id: chip.id || createNodeId() });
+
+// query_string escaping: phrases escape quotes and backslashes, bare terms
+// (wildcards) escape every reserved character, field names keep `*` and `.`.
+const quoteQueryValue = (raw: string) => `"${raw.replace(/["\\]/g, '\\$&')}"`;
+
+export const escapeFieldName = (field: string) => field.replace(/[+\-=&|><!(){}[\]^"~?:\\/\s]/g, '\\$&');
+
+export const formatQueryValue = (value: string) => {
+  if (value === null || value === undefined) return '""';
+  const raw = String(value);
+  if (/^[a-zA-Z0-9_.@][a-zA-Z0-9_.@-]*$/.test(raw)) return raw;
+  return quoteQueryValue(raw);
+};
+
+const formatContainsValue = (value: string) => {
+  const raw = String(value || '');
+  return `*${raw.replace(/[+\-=&|><!(){}[\]^"~*?:\\/\s]/g, '\\$&')}*`;
+};
+
+const formatRangeValue = (value: string) => {
+  const raw = String(value || '').trim();
+  return /^-?\d+(\.\d+)?$/.test(raw) ? raw : quoteQueryValue(raw);
+};
+
+export const buildClause = (chip: BuilderChip) => {
+  const field = escapeFieldName(chip.field);
+  if (chip.operator === 'exists') return `_exists_:${field}`;
+  if (chip.operator === 'not_exists') return `NOT _exists_:${field}`;
+  if (chip.operator === 'contains') return `${field}:${formatContainsValue(chip.value || '')}`;
+  if (chip.operator === 'is_not') return `NOT ${field}:${formatQueryValue(chip.value || '')}`;
+  if (chip.operator === 'gt') return `${field}:{${formatRangeValue(chip.value || '')} TO *]`;
+  if (chip.operator === 'lt') return `${field}:[* TO ${formatRangeValue(chip.value || '')}}`;
+  if (chip.operator === 'between') return `${field}:[${formatRangeValue(chip.value || '')} TO ${formatRangeValue(chip.valueTo || '')}]`;
+  if (chip.operator === 'one_of') return `${field}:(${(chip.values || []).map(formatQueryValue).join(' OR ')})`;
+  if (chip.operator === 'regex') return `${field}:/${(chip.value || '').replace(/\//g, '\\/')}/`;
+  return `${field}:${formatQueryValue(chip.value || '')}`;
+};
+
+// Nested groups are parenthesized; the root group is not.
+export const buildQueryFromGroup = (group: BuilderGroup, root = true): string => {
+  const parts = group.children
+    .map((child) => (isBuilderGroup(child) ? buildQueryFromGroup(child, false) : buildClause(child)))
+    .filter((part) => part.length > 0);
+  const joined = parts.join(` ${group.join} `);
+  return !root && parts.length > 1 ? `(${joined})` : joined;
+};
+
+const findNode = (group: BuilderGroup, id: string): BuilderNode | null => {
+  for (const child of group.children) {
+    if (child.id === id) return child;
+    if (isBuilderGroup(child)) {
+      const found = findNode(child, id);
+      if (found) return found;
+    }
+  }
+  return null;
+};
+
+export const updateBuilderGroup = (group: BuilderGroup, id: string, update: (target: BuilderGroup) => BuilderGroup): BuilderGroup => {
+  if (group.id === id) return update(group);
+  return {
+    ...group,
+    children: group.children.map((child) => (isBuilderGroup(child) ? updateBuilderGroup(child, id, update) : child))
+  };
+};
+
+export const removeBuilderNode = (group: BuilderGroup, id: string): BuilderGroup => ({
+  ...group,
+  children: group.children
+    .filter((child) => child.id !== id)
+    .map((child) => (isBuilderGroup(child) ? removeBuilderNode(child, id) : child))
+});
+
+export const moveBuilderNode = (root: BuilderGroup, nodeId: string, targetGroupId: string): BuilderGroup => {
+  const node = findNode(root, nodeId);
+  if (!node || nodeId === targetGroupId) return root;
+  // A group cannot be dropped into itself or one of its descendants.
+  if (isBuilderGroup(node) && findNode(node, targetGroupId)) return root;
+  const without = removeBuilderNode(root, nodeId);
+  return updateBuilderGroup(without, targetGroupId, (target) => ({ ...target, children: [...target.children, node] }));
+};
+
+type Token =
+  | { type: 'lparen' | 'rparen' | 'and' | 'or' | 'not' }
+  | { type: 'clause'; chip: BuilderChip };
+
+const unescapeTerm = (raw: string) => raw.replace(/\\(.)/g, '$1');
+
+const isSpace = (ch: string) => /\s/.test(ch);
+
+// Reads a quoted string starting at `start` (which must be a quote); returns the
+// unescaped text and the index after the closing quote.
+const readQuoted = (input: string, start: number) => {
+  let j = start + 1;
+  while (j < input.length && input[j] !== '"') {
+    j += input[j] === '\\' ? 2 : 1;
+  }
+  if (j >= input.length) return null;
+  return { text: unescapeTerm(input.slice(start + 1, j)), end: j + 1 };
+};
+
+const readBare = (input: string, start: number, stop: (ch: string) => boolean) => {
+  let j = start;
+  while (j < input.length && !stop(input[j])) {
+    j += input[j] === '\\' ? 2 : 1;
+  }
+  return { raw: input.slice(start, Math.min(j, input.length)), end: Math.min(j, input.length) };
+};
+
+const hasUnescapedWildcard = (raw: string) => /(^|[^\\])[*?]/.test(raw);
+
+// Splits a value list such as `a OR "b c"` or a range body such as `10 TO *`.
+const readValueList = (body: string, separator: 'OR' | 'TO') => {
+  const values: { text: string; quoted: boolean }[] = [];
+  let i = 0;
+  let expectValue = true;
+  while (i < body.length) {
+    if (isSpace(body[i])) {
+      i += 1;
+      continue;
+    }
+    if (!expectValue) {
+      if (!body.startsWith(separator, i)) return null;
+      i += separator.length;
+      expectValue = true;
+      continue;
+    }
+    if (body[i] === '"') {
+      const quoted = readQuoted(body, i);
+      if (!quoted) return null;
+      values.push({ text: quoted.text, quoted: true });
+      i = quoted.end;
+    } else {
+      const bare = readBare(body, i, isSpace);
+      values.push({ text: unescapeTerm(bare.raw), quoted: false });
+      i = bare.end;
+    }
+    expectValue = false;
+  }
+  return expectValue ? null : values;
+};
+
+const findClosing = (input: string, start: number, closers: string[]) => {
+  let j = start + 1;
+  while (j < input.length && !closers.includes(input[j])) {
+    if (input[j] === '"') {
+      const quoted = readQuoted(input, j);
+      if (!quoted) return -1;
+      j = quoted.end;
+      continue;
+    }
+    j += input[j] === '\\' ? 2 : 1;
+  }
+  return j < input.length ? j : -1;
+};
+
+const readClause = (input: string, start: number): { chip: BuilderChip; end: number } | null => {
+  let j = start;
+  while (j < input.length && input[j] !== ':') {
+    if (input[j] === '\\') {
+      j += 2;
+      continue;
+    }
+    if (isSpace(input[j]) || input[j] === '(' || input[j] === ')') return null;
+    j += 1;
+  }
+  if (j >= input.length) return null;
+  const field = unescapeTerm(input.slice(start, j));
+  const valueStart = j + 1;
+  const first = input[valueStart];
+  if (!field || first === undefined) return null;
+
+  if (field === '_exists_') {
+    const bare = readBare(input, valueStart, (ch) => isSpace(ch) || ch === ')');
+    if (!bare.raw) return null;
+    return { chip: { field: unescapeTerm(bare.raw), operator: 'exists' }, end: bare.end };
+  }
+  if (first === '"') {
+    const quoted = readQuoted(input, valueStart);
+    if (!quoted) return null;
+    return { chip: { field, operator: 'is', value: quoted.text }, end: quoted.end };
+  }
+  if (first === '[' || first === '{') {
+    const close = findClosing(input, valueStart, [']', '}']);
+    if (close < 0) return null;
+    const bounds = readValueList(input.slice(valueStart + 1, close), 'TO');
+    if (!bounds || bounds.length !== 2) return null;
+    const [lower, upper] = bounds;
+    const lowerOpen = lower.text === '*' && !lower.quoted;
+    const upperOpen = upper.text === '*' && !upper.quoted;
+    const end = close + 1;
+    if (lowerOpen && !upperOpen && input[close] === '}') return { chip: { field, operator: 'lt', value: upper.text }, end };
+    if (!lowerOpen && upperOpen && first === '{') return { chip: { field, operator: 'gt', value: lower.text }, end };
+    if (!lowerOpen && !upperOpen && first === '[' && input[close] === ']') {
+      return { chip: { field, operator: 'between', value: lower.text, valueTo: upper.text }, end };
+    }
+    return null;
+  }
+  if (first === '(') {
+    const close = findClosing(input, valueStart, [')']);
+    if (close < 0) return null;
+    const values = readValueList(input.slice(valueStart + 1, close), 'OR');
+    if (!values || values.some((entry) => !entry.quoted && hasUnescapedWildcard(entry.text))) return null;
+    return { chip: { field, operator: 'one_of', values: values.map((entry) => entry.text) }, end: close + 1 };
+  }
+  if (first === '/') {
+    let k = valueStart + 1;
+    while (k < input.length && input[k] !== '/') {
+      k += input[k] === '\\' ? 2 : 1;
+    }
+    if (k >= input.length) return null;
+    return { chip: { field, operator: 'regex', value: input.slice(valueStart + 1, k).replace(/\\\//g, '/') }, end: k + 1 };
+  }
+  const bare = readBare(input, valueStart, (ch) => isSpace(ch) || ch === ')');
+  if (!bare.raw) return null;
+  const inner = bare.raw.slice(1, -1);
+  if (bare.raw.length >= 2 && bare.raw.startsWith('*') && bare.raw.endsWith('*') && !bare.raw.endsWith('\\*') && !hasUnescapedWildcard(inner)) {
+    return { chip: { field, operator: 'contains', value: unescapeTerm(inner) }, end: bare.end };
+  }
+  if (hasUnescapedWildcard(bare.raw)) return null;
+  return { chip: { field, operator: 'is', value: unescapeTerm(bare.raw) }, end: bare.end };
+};
+
+const tokenize = (input: string): Token[] | null => {
+  const tokens: Token[] = [];
+  let i = 0;
+  const keywordAt = (word: string) => input.startsWith(word, i)
+    && (i + word.length >= input.length || isSpace(input[i + word.length]) || input[i + word.length] === '(');
+  while (i < input.length) {
+    const ch = input[i];
+    if (isSpace(ch)) {
+      i += 1;
+    } else if (ch === '(' || ch === ')') {
+      tokens.push({ type: ch === '(' ? 'lparen' : 'rparen' });
+      i += 1;
+    } else if (input.startsWith('&&', i) || keywordAt('AND')) {
+      tokens.push({ type: 'and' });
+      i += ch === '&' ? 2 : 3;
+    } else if (input.startsWith('||', i) || keywordAt('OR')) {
+      tokens.push({ type: 'or' });
+      i += 2;
+    } else if (ch === '!' || keywordAt('NOT')) {
+      tokens.push({ type: 'not' });
+      i += ch === '!' ? 1 : 3;
+    } else {
+      const clause = readClause(input, i);
+      if (!clause) return null;
+      tokens.push({ type: 'clause', chip: withNodeId(clause.chip) });
+      i = clause.end;
+    }
+  }
+  return tokens;
+};
+
+// Rebuilds a builder tree from query_string text. Returns null for anything the
+// builder cannot represent: free text, implicit operators, or AND and OR mixed
+// at one level without parentheses (query_string does not give those the usual
+// boolean precedence).
+export const parseQueryToGroup = (input: string): BuilderGroup | null => {
+  const tokens = tokenize(input.trim());
+  if (!tokens || tokens.length === 0) return null;
+  let pos = 0;
+
+  const parseUnary = (): BuilderNode | null => {
+    const token = tokens[pos];
+    if (!token) return null;
+    if (token.type === 'not') {
+      pos += 1;
+      const next = tokens[pos];
+      if (next?.type !== 'clause') return null;
+      pos += 1;
+      if (next.chip.operator === 'is') return { ...next.chip, operator: 'is_not' };
+      if (next.chip.operator === 'exists') return { ...next.chip, operator: 'not_exists' };
+      return null;
+    }
+    if (token.type === 'lparen') {
+      pos += 1;
+      const inner = parseExpression();
+      if (!inner || tokens[pos]?.type !== 'rparen') return null;
+      pos += 1;
+      return inner;
+    }
+    if (token.type === 'clause') {
+      pos += 1;
+      return token.chip;
+    }
+    return null;
+  };
+
+  const parseExpression = (): BuilderNode | null => {
+    const first = parseUnary();
+    if (!first) return null;
+    const items: BuilderNode[] = [first];
+    let join: 'AND' | 'OR' | null = null;
+    while (tokens[pos]?.type === 'and' || tokens[pos]?.type === 'or') {
+      const op = tokens[pos].type === 'and' ? 'AND' : 'OR';
+      if (join && join !== op) return null;
+      join = op;
+      pos += 1;
+      const next = parseUnary();
+      if (!next) return null;
+      items.push(next);
+    }
+    if (pos < tokens.length && tokens[pos].type !== 'rparen') return null;
+    return items.length === 1 ? items[0] : createBuilderGroup(join || 'AND', items);
+  };
+
+  const result = parseExpression();
+  if (!result || pos !== tokens.length) return null;
+  return isBuilderGroup(result) ? result : createBuilderGroup('AND', [result]);
+};
+
+export interface BuilderFieldInfo {
+  // Exact-value field for term/terms/wildcard/regexp (`field` or `field.keyword`);
+  // null when only analyzed text is available.
+  keyword: string | null;
+}
+
+const escapeWildcardValue = (value: string) => value.replace(/[\\*?]/g, '\\$&');
+
+const toRangeValue = (value: string) => {
+  const raw = value.trim();
+  return /^-?\d+(\.\d+)?$/.test(raw) ? Number(raw) : raw;
+};
+
+const buildChipDsl = (chip: BuilderChip, info: BuilderFieldInfo): Record<string, any> => {
+  const value = chip.value || '';
+  const exact = (term: string) => (info.keyword ? { term: { [info.keyword]: term } } : { match_phrase: { [chip.field]: term } });
+  if (chip.operator === 'exists') return { exists: { field: chip.field } };
+  if (chip.operator === 'not_exists') return { bool: { must_not: [{ exists: { field: chip.field } }] } };
+  if (chip.operator === 'is_not') return { bool: { must_not: [exact(value)] } };
+  if (chip.operator === 'contains') {
+    return info.keyword
+      ? { wildcard: { [info.keyword]: { value: `*${escapeWildcardValue(value)}*`, case_insensitive: true } } }
+      : { match_phrase: { [chip.field]: value } };
+  }
+  if (chip.operator === 'gt') return { range: { [chip.field]: { gt: toRangeValue(value) } } };
+  if (chip.operator === 'lt') return { range: { [chip.field]: { lt: toRangeValue(value) } } };
+  if (chip.operator === 'between') {
+    return { range: { [chip.field]: { gte: toRangeValue(value), lte: toRangeValue(chip.valueTo || '') } } };
+  }
+  if (chip.operator === 'one_of') {
+    const values = chip.values || [];
+    return info.keyword
+      ? { terms: { [info.keyword]: values } }
+      : { bool: { should: values.map((entry) => ({ match_phrase: { [chip.field]: entry } })), minimum_should_match: 1 } };
+  }
+  if (chip.operator === 'regex') return { regexp: { [info.keyword || chip.field]: { value } } };
+  return exact(value);
+};
+
+// Null when the group has nothing to match, so empty nested groups are skipped
+// as they are in buildQueryFromGroup instead of widening an OR to everything.
+const buildGroupDsl = (group: BuilderGroup, resolveField: (field: string) => BuilderFieldInfo): Record<string, any> | null => {
+  const clauses = group.children
+    .map((child) => (isBuilderGroup(child)
+      ? buildGroupDsl(child, resolveField)
+      : buildChipDsl(child, resolveField(child.field))))
+    .filter((clause): clause is Record<string, any> => clause !== null);
+  if (clauses.length === 0) return null;
+  if (clauses.length === 1) return clauses[0];
+  return group.join === 'AND'
+    ? { bool: { filter: clauses } }
+    : { bool: { should: clauses, minimum_should_match: 1 } };
+};
+
+// Structured equivalent of buildQueryFromGroup: field names and values are sent
+// verbatim, so nothing needs query_string escaping. Only an empty root matches
+// everything.
+export const buildDslFromGroup = (group: BuilderGroup, resolveField: (field: string) => BuilderFieldInfo): Record<string, any> => (
+  buildGroupDsl(group, resolveField) || { match_all: {} }
+);
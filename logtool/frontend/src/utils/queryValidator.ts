@@ -0,0 +1,257 @@
+export interface QueryIssue {
+  severity: 'error' | 'warning';
+  message: string;
+  start: number;
+  end: number;
+  fix?: { label: string; query: string };
+}
+
+interface Token {
+  type: 'lparen' | 'rparen' | 'op' | 'not' | 'term' | 'phrase' | 'range' | 'regex';
+  start: number;
+  end: number;
+  field?: { name: string; start: number; end: number };
+  // Value text for terms, without the field prefix.
+  value?: string;
+  valueStart?: number;
+}
+
+const isSpace = (ch: string) => /\s/.test(ch);
+
+const readBare = (input: string, start: number, stopAtColon: boolean) => {
+  let i = start;
+  while (i < input.length) {
+    const ch = input[i];
+    if (ch === '\\') {
+      i += 2;
+      continue;
+    }
+    if (isSpace(ch) || ch === '(' || ch === ')' || (stopAtColon && ch === ':')) break;
+    i += 1;
+  }
+  return Math.min(i, input.length);
+};
+
+const readUntil = (input: string, start: number, closers: string) => {
+  for (let i = start + 1; i < input.length; i += 1) {
+    if (input[i] === '\\') {
+      i += 1;
+    } else if (closers.includes(input[i])) {
+      return i + 1;
+    }
+  }
+  return -1;
+};
+
+// Removes input[start, end) and the whitespace around it, keeping one space
+// between the remaining neighbours.
+const removeSpan = (input: string, start: number, end: number) => {
+  const left = input.slice(0, start).replace(/\s+$/, '');
+  const right = input.slice(end).replace(/^\s+/, '');
+  if (!left || !right || left.endsWith('(') || right.startsWith(')')) return left + right;
+  return `${left} ${right}`;
+};
+
+const replaceSpan = (input: string, start: number, end: number, text: string) =>
+  input.slice(0, start) + text + input.slice(end);
+
+const lex = (input: string, issues: QueryIssue[]) => {
+  const tokens: Token[] = [];
+  // Quoted phrases, ranges and regexes that never close swallow the rest of the input.
+  const readDelimited = (type: 'phrase' | 'range' | 'regex', start: number) => {
+    const opener = input[start];
+    const closer = opener === '"' ? '"' : opener === '/' ? '/' : opener === '[' ? ']}' : '}]';
+    const end = readUntil(input, start, closer);
+    if (end !== -1) return end;
+    const name = type === 'phrase' ? 'quote' : type === 'regex' ? 'regular expression' : 'range';
+    const append = type === 'range' ? (opener === '[' ? ']' : '}') : opener;
+    issues.push({
+      severity: 'error',
+      message: `Unclosed ${name}.`,
+      start,
+      end: input.length,
+      fix: { label: `Add closing ${append}`, query: input + append }
+    });
+    return input.length;
+  };
+
+  let i = 0;
+  while (i < input.length) {
+    const ch = input[i];
+    if (isSpace(ch)) {
+      i += 1;
+    } else if (ch === '(' || ch === ')') {
+      tokens.push({ type: ch === '(' ? 'lparen' : 'rparen', start: i, end: i + 1 });
+      i += 1;
+    } else if (input.startsWith('&&', i) || input.startsWith('||', i)) {
+      tokens.push({ type: 'op', start: i, end: i + 2 });
+      i += 2;
+    } else if (ch === '!') {
+      tokens.push({ type: 'not', start: i, end: i + 1 });
+      i += 1;
+    } else if (ch === '"') {
+      const end = readDelimited('phrase', i);
+      tokens.push({ type: 'phrase', start: i, end });
+      i = end;
+    } else if (ch === '[' || ch === '{') {
+      const end = readDelimited('range', i);
+      tokens.push({ type: 'range', start: i, end });
+      i = end;
+    } else if (ch === '/') {
+      const end = readDelimited('regex', i);
+      tokens.push({ type: 'regex', start: i, end });
+      i = end;
+    } else {
+      const wordEnd = readBare(input, i, true);
+      const word = input.slice(i, wordEnd);
+      if (input[wordEnd] !== ':' || wordEnd === i) {
+        const end = wordEnd === i ? readBare(input, i, false) : wordEnd;
+        const text = input.slice(i, end);
+        if (text === 'AND' || text === 'OR') {
+          tokens.push({ type: 'op', start: i, end });
+        } else if (text === 'NOT') {
+          tokens.push({ type: 'not', start: i, end });
+        } else {
+          tokens.push({ type: 'term', start: i, end, value: text, valueStart: i });
+        }
+        i = Math.max(end, i + 1);
+        continue;
+      }
+      const field = { name: word.replace(/\\(.)/g, '$1'), start: i, end: wordEnd };
+      const valueStart = wordEnd + 1;
+      const next = input[valueStart];
+      if (next === undefined || isSpace(next) || next === ')') {
+        issues.push({ severity: 'error', message: `Missing value after ${field.name}:`, start: i, end: valueStart });
+        tokens.push({ type: 'term', start: i, end: valueStart, field, value: '', valueStart });
+        i = valueStart;
+      } else if (next === '(') {
+        // field:(a OR b) — the group's terms are lexed as usual.
+        tokens.push({ type: 'lparen', start: valueStart, end: valueStart + 1, field });
+        i = valueStart + 1;
+      } else if (next === '"' || next === '[' || next === '{' || next === '/') {
+        const type = next === '"' ? 'phrase' : next === '/' ? 'regex' : 'range';
+        const end = readDelimited(type, valueStart);
+        tokens.push({ type, start: i, end, field });
+        i = end;
+      } else {
+        const end = readBare(input, valueStart, false);
+        tokens.push({ type: 'term', start: i, end, field, value: input.slice(valueStart, end), valueStart });
+        i = end;
+      }
+    }
+  }
+  return tokens;
+};
+
+const editDistance = (a: string, b: string) => {
+  const row = Array.from({ length: b.length + 1 }, (_, idx) => idx);
+  for (let i = 1; i <= a.length; i += 1) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j += 1) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+};
+
+const closestField = (name: string, knownFields: string[]) => {
+  const lower = name.toLowerCase();
+  const ranked = knownFields
+    .map((field) => ({ field, distance: editDistance(lower, field.toLowerCase()) }))
+    .sort((a, b) => a.distance - b.distance);
+  const best = ranked[0];
+  return best && best.distance <= Math.max(2, Math.floor(name.length / 4)) ? best.field : null;
+};
+
+const checkOperators = (input: string, tokens: Token[], issues: QueryIssue[]) => {
+  tokens.forEach((token, idx) => {
+    if (token.type !== 'op' && token.type !== 'not') return;
+    const prev = tokens[idx - 1];
+    const next = tokens[idx + 1];
+    const text = input.slice(token.start, token.end);
+    const missingRight = !next || next.type === 'op' || next.type === 'rparen';
+    const missingLeft = token.type === 'op' && (!prev || prev.type === 'op' || prev.type === 'not' || prev.type === 'lparen');
+    if (!missingLeft && !missingRight) return;
+    issues.push({
+      severity: 'error',
+      message: missingRight ? `${text} needs a search term after it.` : `${text} needs a search term before it.`,
+      start: token.start,
+      end: token.end,
+      fix: { label: `Remove ${text}`, query: removeSpan(input, token.start, token.end) }
+    });
+  });
+};
+
+const checkParentheses = (input: string, tokens: Token[], issues: QueryIssue[]) => {
+  const open: Token[] = [];
+  tokens.forEach((token) => {
+    if (token.type === 'lparen') open.push(token);
+    if (token.type !== 'rparen') return;
+    if (open.pop()) return;
+    issues.push({
+      severity: 'error',
+      message: 'Closing parenthesis without a matching (.',
+      start: token.start,
+      end: token.end,
+      fix: { label: 'Remove )', query: removeSpan(input, token.start, token.end) }
+    });
+  });
+  open.forEach((token) => {
+    const paren = token.end - 1;
+    issues.push({
+      severity: 'error',
+      message: 'Parenthesis is never closed.',
+      start: paren,
+      end: token.end,
+      fix: { label: 'Add closing )', query: `${input.trimEnd()}${')'.repeat(open.length)}` }
+    });
+  });
+};
+
+const checkTerms = (input: string, tokens: Token[], knownFields: string[], issues: QueryIssue[]) => {
+  const known = new Set(knownFields);
+  tokens.forEach((token) => {
+    const field = token.field;
+    if (field && known.size > 0 && !field.name.startsWith('_') && !/[*?]/.test(field.name) && !known.has(field.name)) {
+      const suggestion = closestField(field.name, knownFields);
+      issues.push({
+        severity: 'warning',
+        message: `Unknown field ${field.name} for this index pattern.`,
+        start: field.start,
+        end: field.end,
+        fix: suggestion
+          ? { label: `Use ${suggestion}`, query: replaceSpan(input, field.start, field.end, suggestion) }
+          : undefined
+      });
+    }
+    const value = token.value || '';
+    if (token.type === 'term' && token.valueStart !== undefined && /^[*?]/.test(value) && value !== '*') {
+      const stripped = value.replace(/^[*?]+/, '');
+      issues.push({
+        severity: 'warning',
+        message: 'Leading wildcards scan every term in the index and are slow (or disabled on some clusters).',
+        start: token.valueStart,
+        end: token.end,
+        fix: stripped
+          ? { label: `Search ${stripped}${value.endsWith('*') ? '' : '*'} instead`, query: replaceSpan(input, token.valueStart, token.end, value.endsWith('*') ? stripped : `${stripped}*`) }
+          : undefined
+      });
+    }
+  });
+};
+
+// Catches the query_string mistakes OpenSearch would otherwise reject with a
+// raw parse error. `knownFields` comes from _field_caps; pass [] to skip the
+// unknown-field check.
+export const validateQuery = (input: string, knownFields: string[]): QueryIssue[] => {
+  if (!input.trim()) return [];
+  const issues: QueryIssue[] = [];
+  const tokens = lex(input, issues);
+  checkParentheses(input, tokens, issues);
+  checkOperators(input, tokens, issues);
+  checkTerms(input, tokens, knownFields, issues);
+  return issues.sort((a, b) => a.start - b.start);
+};
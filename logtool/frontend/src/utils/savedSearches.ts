@@ -0,0 +1,58 @@
+import { BuilderGroup } from './queryBuilder';
+
+const LEGACY_BOOKMARKS_KEY = 'bookmarks';
+
+export interface SavedSearchState {
+  indexPattern?: string;
+  timePreset?: string;
+  // Absolute range, only when timePreset is 'custom'.
+  start?: string;
+  end?: string;
+  searchMode?: 'relevant' | 'exact';
+  queryLanguage?: 'lucene' | 'ppl' | 'sql';
+  builder?: BuilderGroup;
+  pinnedFilters?: { field: string; value: string }[];
+  columns?: { field: string; width: number }[];
+}
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string;
+  state?: SavedSearchState;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// Bookmarks from before saved searches moved server-side: `{ name, query }`
+// objects (or bare query strings) in localStorage.
+export const readLegacyBookmarks = (): { name: string; query: string }[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(LEGACY_BOOKMARKS_KEY) || '[]');
+    if (!Array.isArray(saved)) return [];
+    return saved
+      .map((entry) => (typeof entry === 'string'
+        ? { name: entry, query: entry }
+        : { name: String(entry?.name || entry?.query || ''), query: String(entry?.query || '') }))
+      .filter((entry) => entry.name && entry.query);
+  } catch {
+    return [];
+  }
+};
+
+// Keeps only the given bookmarks, e.g. the ones whose upload failed.
+export const keepLegacyBookmarks = (bookmarks: { name: string; query: string }[]) => {
+  if (bookmarks.length === 0) {
+    localStorage.removeItem(LEGACY_BOOKMARKS_KEY);
+  } else {
+    localStorage.setItem(LEGACY_BOOKMARKS_KEY, JSON.stringify(bookmarks));
+  }
+};
+
+// Legacy bookmarks belong to the browser, not an account, so a user who turns
+// the import down is not asked again; another user of the browser still can be.
+export const isLegacyImportDeclined = (username: string) => localStorage.getItem(`legacyBookmarksDeclined:${username}`) === '1';
+
+export const declineLegacyImport = (username: string) => {
+  localStorage.setItem(`legacyBookmarksDeclined:${username}`, '1');
+};
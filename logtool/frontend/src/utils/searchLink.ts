@@ -0,0 +1,96 @@
+import { SavedSearchState } from './savedSearches';
+
+// Search state carried in the URL so a link reproduces what the sender saw.
+export interface SearchLinkState {
+  indexPattern?: string;
+  query?: string;
+  // Relative preset ('15m', '1h', ...) or an absolute range.
+  timePreset?: string;
+  start?: string;
+  end?: string;
+  searchMode?: 'relevant' | 'exact';
+  queryLanguage?: 'ppl' | 'sql';
+  pinnedFilters?: { field: string; value: string }[];
+  page?: number;
+  hit?: string;
+}
+
+const RELATIVE_PRESETS = ['15m', '1h', '6h', 'today', '7d'];
+
+export const encodeSearchLink = (state: SearchLinkState): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (state.indexPattern) params.set('index', state.indexPattern);
+  if (state.query) params.set('q', state.query);
+  if (state.start && state.end) {
+    params.set('from', state.start);
+    params.set('to', state.end);
+  } else if (state.timePreset) {
+    params.set('time', state.timePreset);
+  }
+  if (state.searchMode) params.set('mode', state.searchMode);
+  if (state.queryLanguage) params.set('lang', state.queryLanguage);
+  (state.pinnedFilters || []).forEach((pin) => params.append('pin', `${pin.field}:${pin.value}`));
+  if (state.page && state.page > 1) params.set('page', String(state.page));
+  if (state.hit) params.set('hit', state.hit);
+  return params;
+};
+
+// Returns null when the URL carries no search, so a bare visit keeps the
+// user's remembered settings.
+export const decodeSearchLink = (params: URLSearchParams): SearchLinkState | null => {
+  const state: SearchLinkState = {};
+  const index = params.get('index');
+  if (index) state.indexPattern = index;
+  const query = params.get('q');
+  if (query) state.query = query;
+  const from = params.get('from');
+  const to = params.get('to');
+  const time = params.get('time');
+  if (from && to && !Number.isNaN(Date.parse(from)) && !Number.isNaN(Date.parse(to))) {
+    state.start = from;
+    state.end = to;
+  } else if (time && RELATIVE_PRESETS.includes(time)) {
+    state.timePreset = time;
+  }
+  const mode = params.get('mode');
+  if (mode === 'relevant' || mode === 'exact') state.searchMode = mode;
+  const lang = params.get('lang');
+  if (lang === 'ppl' || lang === 'sql') state.queryLanguage = lang;
+  const pins = params.getAll('pin')
+    .map((raw) => {
+      const split = raw.indexOf(':');
+      return split > 0 ? { field: raw.slice(0, split), value: raw.slice(split + 1) } : null;
+    })
+    .filter((pin): pin is { field: string; value: string } => pin !== null);
+  if (pins.length > 0) state.pinnedFilters = pins;
+  const page = Number(params.get('page'));
+  if (Number.isInteger(page) && page > 1) state.page = page;
+  const hit = params.get('hit');
+  if (hit) state.hit = hit;
+  return Object.keys(state).length > 0 ? state : null;
+};
+
+// A search opened from a link: the query plus the state to restore, and the
+// page and hit the sender was looking at. Short links (/s/:id) resolve to this
+// shape directly, builder groups included.
+export interface SharedSearch {
+  query: string;
+  state?: SavedSearchState;
+  page?: number;
+  hit?: string;
+}
+
+export const toSharedSearch = (link: SearchLinkState): SharedSearch => ({
+  query: link.query || '',
+  state: {
+    indexPattern: link.indexPattern,
+    timePreset: link.start ? 'custom' : link.timePreset,
+    start: link.start,
+    end: link.end,
+    searchMode: link.searchMode,
+    queryLanguage: link.queryLanguage || 'lucene',
+    pinnedFilters: link.pinnedFilters
+  },
+  page: link.page,
+  hit: link.hit
+});
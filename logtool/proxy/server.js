@@ -23,7 +23,11 @@ const CONFIG_PATH = path.join(DATA_DIR, 'app-config.json');
 const METRICS_PATH = path.join(DATA_DIR, 'metrics.json');
 const RULES_PATH = path.join(DATA_DIR, 'rules.json');
 const RULES_STATE_PATH = path.join(DATA_DIR, 'rules-state.json');
+const CHANNELS_PATH = path.join(DATA_DIR, 'channels.json');
+const ALERT_EVENTS_PATH = path.join(DATA_DIR, 'alert-events.json');
 const TEAM_BOOKMARKS_PATH = path.join(DATA_DIR, 'team-bookmarks.json');
+const SAVED_SEARCHES_PATH = path.join(DATA_DIR, 'saved-searches.json');
+const LINKS_PATH = path.join(DATA_DIR, 'links.json');
 const USERS_PATH = path.join(DATA_DIR, 'users.json');
 const FEATURE_TOGGLES_PATH = path.join(DATA_DIR, 'feature-toggles.json');
 const TEAMS_PATH = path.join(DATA_DIR, 'teams.json');
@@ -121,7 +125,7 @@ const DEFAULT_CONFIG = {
       items: [
         { q: 'How do I run my first search?', a: '1) Choose a time preset. 2) Enter a keyword. 3) Click Search. Results appear below.' },
         { q: 'What does the OS status dot mean?', a: 'Green means OpenSearch reachable. Red means the cluster is down or unreachable.' },
-        { q: 'How do I clear the app state?', a: 'Click the Clear button to wipe recent searches and bookmarks for this browser.' },
+        { q: 'How do I clear the app state?', a: 'Click the Clear button to wipe recent searches for this browser. Saved searches are kept on the server; delete them with the × next to each one.' },
         { q: 'What does Remember password do?', a: 'It stores your username and password in this browser for convenience. Disable it on shared machines.' }
       ]
     },
@@ -302,7 +306,7 @@ const DEFAULT_CONFIG = {
       id: 'alert-rules',
       title: 'Alert Rules',
       items: [
-        { q: 'How do alert rules trigger?', a: 'Rules evaluate query matches per window and send email when threshold is exceeded.' },
+        { q: 'How do alert rules trigger?', a: 'Rules evaluate a hit count, ratio, numeric field or unique-count condition over the window and send email when the value is above or below the threshold.' },
         { q: 'Why is alert email not sent?', a: 'Verify SMTP settings and alert recipients in App Configuration.' }
       ]
     },
@@ -328,7 +332,7 @@ const DEFAULT_CONFIG = {
       id: 'backup-restore',
       title: 'Backup & Restore',
       items: [
-        { q: 'What does Backup include?', a: 'Config, users, teams, feature toggles, rules, and bookmarks.' },
+        { q: 'What does Backup include?', a: 'Config, users, teams, feature toggles, rules, team bookmarks, saved searches and short links.' },
         { q: 'How do I restore?', a: 'Use Backup & Restore in Admin and upload a valid JSON backup.' }
       ]
     },
@@ -405,7 +409,11 @@ saveJson(CONFIG_PATH, appConfig);
 let metrics = loadJson(METRICS_PATH, { byDate: {}, hourlyQueries: {}, hourlyTotals: {}, activity: [] });
 let rules = loadJson(RULES_PATH, { rules: [] });
 let rulesState = loadJson(RULES_STATE_PATH, { lastTriggeredAt: {} });
+let channels = loadJson(CHANNELS_PATH, { channels: [] });
+let alertEvents = loadJson(ALERT_EVENTS_PATH, { events: [] });
 let teamBookmarks = loadJson(TEAM_BOOKMARKS_PATH, { bookmarks: [] });
+let savedSearches = loadJson(SAVED_SEARCHES_PATH, { searches: [] });
+let shortLinks = loadJson(LINKS_PATH, { links: [] });
 let users = loadJson(USERS_PATH, { users: [] });
 let featureToggles = loadJson(FEATURE_TOGGLES_PATH, { teams: {} });
 let teams = loadJson(TEAMS_PATH, { teams: [] });
@@ -435,6 +443,64 @@ function isUserOnline(userId) {
   return false;
 }
 
+const SAVED_SEARCH_TIME_PRESETS = ['15m', '1h', '6h', 'today', '7d', 'custom'];
+const SAVED_SEARCH_OPERATORS = ['is', 'is_not', 'contains', 'exists', 'not_exists', 'gt', 'lt', 'between', 'one_of', 'regex'];
+const SAVED_SEARCH_MAX_DEPTH = 8;
+const SAVED_SEARCH_MAX_PER_USER = 200;
+const SAVED_SEARCH_MAX_BYTES = 64 * 1024;
+
+function normalizeSavedBuilderNode(node, depth = 0) {
+  if (!node || typeof node !== 'object' || depth > SAVED_SEARCH_MAX_DEPTH) return null;
+  if (Array.isArray(node.children)) {
+    return {
+      id: String(node.id || crypto.randomUUID()),
+      join: node.join === 'OR' ? 'OR' : 'AND',
+      children: node.children.map((child) => normalizeSavedBuilderNode(child, depth + 1)).filter(Boolean)
+    };
+  }
+  const field = String(node.field || '').trim();
+  if (!field || !SAVED_SEARCH_OPERATORS.includes(node.operator)) return null;
+  const chip = { id: String(node.id || crypto.randomUUID()), field, operator: node.operator };
+  if (node.value !== undefined && node.value !== null) chip.value = String(node.value);
+  if (node.valueTo !== undefined && node.valueTo !== null) chip.valueTo = String(node.valueTo);
+  if (Array.isArray(node.values)) chip.values = node.values.map((value) => String(value));
+  return chip;
+}
+
+// Everything besides the query text needed to reproduce a search. Older
+// bookmarks have no state and run against the user's current settings.
+function normalizeSavedSearchState(state) {
+  if (!state || typeof state !== 'object') return undefined;
+  const next = {};
+  if (typeof state.indexPattern === 'string' && state.indexPattern.trim()) next.indexPattern = state.indexPattern.trim();
+  if (SAVED_SEARCH_TIME_PRESETS.includes(state.timePreset)) next.timePreset = state.timePreset;
+  if (next.timePreset === 'custom') {
+    const start = new Date(state.start);
+    const end = new Date(state.end);
+    if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+      delete next.timePreset;
+    } else {
+      next.start = start.toISOString();
+      next.end = end.toISOString();
+    }
+  }
+  if (state.searchMode === 'relevant' || state.searchMode === 'exact') next.searchMode = state.searchMode;
+  if (['lucene', 'ppl', 'sql'].includes(state.queryLanguage)) next.queryLanguage = state.queryLanguage;
+  const builder = normalizeSavedBuilderNode(state.builder);
+  if (builder && Array.isArray(builder.children) && builder.children.length > 0) next.builder = builder;
+  if (Array.isArray(state.pinnedFilters)) {
+    next.pinnedFilters = state.pinnedFilters
+      .filter((pin) => pin && typeof pin.field === 'string' && pin.value !== undefined && pin.value !== null)
+      .map((pin) => ({ field: pin.field, value: String(pin.value) }));
+  }
+  if (Array.isArray(state.columns)) {
+    next.columns = state.columns
+      .filter((column) => column && typeof column.field === 'string' && column.field.trim())
+      .map((column) => ({ field: column.field.trim(), width: Math.min(Math.max(Number(column.width) || 180, 60), 2000) }));
+  }
+  return Object.keys(next).length > 0 ? next : undefined;
+}
+
 function normalizeTeamBookmarks(data) {
   const list = Array.isArray(data.bookmarks) ? data.bookmarks : [];
   return {
@@ -443,8 +509,55 @@ function normalizeTeamBookmarks(data) {
       name: String(b.name || '').trim(),
       query: String(b.query || '').trim(),
       team: b.team ? String(b.team).trim() : undefined,
+      state: normalizeSavedSearchState(b.state),
       createdAt: b.createdAt || new Date().toISOString()
-    })).filter((b) => b.name && b.query)
+    })).filter((b) => b.name && (b.query || b.state))
+  };
+}
+
+function normalizeSavedSearches(data) {
+  const list = Array.isArray(data.searches) ? data.searches : [];
+  return {
+    searches: list.map((entry) => ({
+      id: entry.id || crypto.randomUUID(),
+      userKey: String(entry.userKey || 'public'),
+      name: String(entry.name || '').trim(),
+      query: String(entry.query || '').trim(),
+      state: normalizeSavedSearchState(entry.state),
+      createdAt: entry.createdAt || new Date().toISOString(),
+      updatedAt: entry.updatedAt || entry.createdAt || new Date().toISOString()
+    })).filter((entry) => entry.name && (entry.query || entry.state))
+  };
+}
+
+const SHORT_LINK_EXPIRY_DAYS = [1, 7, 30, 90];
+// Per creator (per client IP without auth): links that have not expired, and
+// links created in the last hour.
+const SHORT_LINK_MAX_ACTIVE = 500;
+const SHORT_LINK_MAX_PER_HOUR = 60;
+// Open counts are flushed at most this often instead of on every open.
+const SHORT_LINK_STATS_SAVE_MS = 60 * 1000;
+
+function normalizeShortLinks(data) {
+  const list = Array.isArray(data.links) ? data.links : [];
+  return {
+    links: list.map((entry) => {
+      const page = Number(entry.page);
+      return {
+        id: String(entry.id || crypto.randomBytes(6).toString('base64url')),
+        query: String(entry.query || ''),
+        state: normalizeSavedSearchState(entry.state),
+        page: Number.isInteger(page) && page > 1 ? page : undefined,
+        hit: entry.hit ? String(entry.hit) : undefined,
+        createdBy: String(entry.createdBy || 'public'),
+        createdById: entry.createdById ? String(entry.createdById) : undefined,
+        createdIp: entry.createdIp ? String(entry.createdIp) : undefined,
+        createdAt: entry.createdAt || new Date().toISOString(),
+        expiresAt: entry.expiresAt || undefined,
+        lastOpenedAt: entry.lastOpenedAt || undefined,
+        openCount: Number(entry.openCount) || 0
+      };
+    }).filter((entry) => entry.query || entry.state)
   };
 }
 
@@ -487,6 +600,57 @@ function normalizeMotdTemplates(data) {
   };
 }
 
+const CHANNEL_TYPES = ['webhook', 'slack', 'teams', 'email'];
+
+function normalizeChannels(data) {
+  const list = Array.isArray(data.channels) ? data.channels : [];
+  return {
+    channels: list.map((entry) => {
+      const type = CHANNEL_TYPES.includes(entry.type) ? entry.type : 'webhook';
+      const headers = entry.headers && typeof entry.headers === 'object' && !Array.isArray(entry.headers)
+        ? Object.fromEntries(
+          Object.entries(entry.headers)
+            .map(([key, value]) => [String(key).trim(), String(value)])
+            .filter(([key]) => key)
+        )
+        : {};
+      return {
+        id: entry.id || crypto.randomUUID(),
+        name: String(entry.name || '').trim(),
+        type,
+        url: type === 'email' ? '' : String(entry.url || '').trim(),
+        to: type === 'email' ? String(entry.to || '').trim() : '',
+        headers: type === 'webhook' ? headers : {},
+        bodyTemplate: type === 'webhook' ? String(entry.bodyTemplate || '') : '',
+        enabled: entry.enabled !== false,
+        createdAt: entry.createdAt || new Date().toISOString()
+      };
+    }).filter((entry) => entry.name)
+  };
+}
+
+const RULE_CONDITIONS = ['count', 'ratio', 'metric', 'unique_count'];
+const RULE_METRICS = ['avg', 'max', 'percentile'];
+
+function normalizeRuleCondition(rule) {
+  const condition = RULE_CONDITIONS.includes(rule.condition) ? rule.condition : 'count';
+  const next = { condition, comparator: rule.comparator === 'below' ? 'below' : 'above' };
+  if (condition === 'ratio') {
+    next.denominatorQuery = String(rule.denominatorQuery || '').trim() || '*';
+  }
+  if (condition === 'metric' || condition === 'unique_count') {
+    next.field = String(rule.field || '').trim();
+  }
+  if (condition === 'metric') {
+    next.metric = RULE_METRICS.includes(rule.metric) ? rule.metric : 'avg';
+    if (next.metric === 'percentile') {
+      const percentile = Number(rule.percentile || 95);
+      next.percentile = Number.isFinite(percentile) && percentile > 0 && percentile < 100 ? percentile : 95;
+    }
+  }
+  return next;
+}
+
 function normalizeRules(data) {
   const list = Array.isArray(data.rules) ? data.rules : [];
   return {
@@ -494,14 +658,32 @@ function normalizeRules(data) {
       id: rule.id || crypto.randomUUID(),
       name: String(rule.name || '').trim(),
       query: String(rule.query || '').trim(),
+      indexPattern: String(rule.indexPattern || '').trim() || appConfig.defaultIndexPattern,
+      ...normalizeRuleCondition(rule),
       threshold: Number(rule.threshold || 0),
       windowMinutes: Number(rule.windowMinutes || 60),
       team: rule.team ? String(rule.team).trim() : undefined,
-      email: rule.email ? String(rule.email).trim() : undefined
+      email: rule.email ? String(rule.email).trim() : undefined,
+      channelIds: Array.isArray(rule.channelIds)
+        ? Array.from(new Set(rule.channelIds.map((id) => String(id).trim()).filter(Boolean)))
+        : []
     })).filter((r) => r.name && r.query)
   };
 }
 
+function getRuleValidationError(rule) {
+  if ((rule.condition === 'metric' || rule.condition === 'unique_count') && !rule.field) {
+    return `Rule "${rule.name}" needs a field.`;
+  }
+  if (!Number.isFinite(rule.threshold) || rule.threshold < 0) {
+    return `Rule "${rule.name}" needs a threshold of 0 or more.`;
+  }
+  if (!Number.isFinite(rule.windowMinutes) || rule.windowMinutes < 1) {
+    return `Rule "${rule.name}" needs a window of at least 1 minute.`;
+  }
+  return null;
+}
+
 function normalizeUsers(data) {
   const list = Array.isArray(data.users) ? data.users : [];
   return {
@@ -553,6 +735,20 @@ function normalizeMetrics(data) {
   };
 }
 
+function normalizeRulesState(data) {
+  return {
+    lastTriggeredAt: data && typeof data.lastTriggeredAt === 'object' && data.lastTriggeredAt ? data.lastTriggeredAt : {},
+    snoozedUntil: data && typeof data.snoozedUntil === 'object' && data.snoozedUntil ? data.snoozedUntil : {}
+  };
+}
+
+function normalizeAlertEvents(data) {
+  const list = Array.isArray(data.events) ? data.events : [];
+  return {
+    events: list.filter((event) => event && event.id && event.ruleId).slice(0, 500)
+  };
+}
+
 function normalizeHealthHistory(data) {
   const list = Array.isArray(data.history) ? data.history : [];
   return {
@@ -985,10 +1181,17 @@ function cacheSet(key, value) {
 
 teamBookmarks = normalizeTeamBookmarks(teamBookmarks);
 saveJson(TEAM_BOOKMARKS_PATH, teamBookmarks);
+savedSearches = normalizeSavedSearches(savedSearches);
+saveJson(SAVED_SEARCHES_PATH, savedSearches);
+shortLinks = normalizeShortLinks(shortLinks);
+saveJson(LINKS_PATH, shortLinks);
 
 rules = normalizeRules(rules);
 saveJson(RULES_PATH, rules);
 
+channels = normalizeChannels(channels);
+saveJson(CHANNELS_PATH, channels);
+
 users = normalizeUsers(users);
 saveJson(USERS_PATH, users);
 
@@ -1011,6 +1214,12 @@ saveJson(METRICS_PATH, metrics);
 healthHistory = normalizeHealthHistory(healthHistory);
 saveJson(HEALTH_HISTORY_PATH, healthHistory);
 
+rulesState = normalizeRulesState(rulesState);
+saveJson(RULES_STATE_PATH, rulesState);
+
+alertEvents = normalizeAlertEvents(alertEvents);
+saveJson(ALERT_EVENTS_PATH, alertEvents);
+
 if (!importJobs || typeof importJobs !== 'object') {
   importJobs = { jobs: [] };
 }
@@ -1109,8 +1318,11 @@ function normalizeConfig(config) {
           ? entry.searchFields.map((field) => String(field).trim()).filter((field) => field.length > 0)
           : [];
         const searchMode = String(entry.searchMode || '').trim().toLowerCase();
+        const columns = Array.isArray(entry.columns)
+          ? entry.columns.map((field) => String(field).trim()).filter((field) => field.length > 0)
+          : [];
         if (!pattern) return null;
-        return { pattern, timeField, searchFields, searchMode: searchMode === 'exact' ? 'exact' : (searchMode === 'relevant' ? 'relevant' : '') };
+        return { pattern, timeField, searchFields, searchMode: searchMode === 'exact' ? 'exact' : (searchMode === 'relevant' ? 'relevant' : ''), columns };
       })
       .filter(Boolean);
   } else {
@@ -1474,11 +1686,20 @@ function getAllowedIndexPatterns(user) {
   return teams.flatMap((team) => Array.isArray(teamAccess[team]) ? teamAccess[team] : []);
 }
 
+// Multi-index searches send a comma-joined target ("app-logs-*,vector-*").
+function splitIndexPatterns(indexPattern) {
+  return String(indexPattern || '').split(',').map((part) => part.trim()).filter(Boolean);
+}
+
+// Every element of a comma-joined target has to be allowed on its own.
 function isIndexPatternAllowed(user, indexPattern) {
   if (!user || user.role === 'admin') return true;
   const allowed = getAllowedIndexPatterns(user);
   if (allowed.length === 0) return true;
-  return allowed.some((pattern) => wildcardToRegex(String(pattern)).test(indexPattern));
+  const targets = splitIndexPatterns(indexPattern);
+  return targets.length > 0 && targets.every(
+    (target) => allowed.some((pattern) => wildcardToRegex(String(pattern)).test(target))
+  );
 }
 
 function filterIndexOptionsForUser(user, options) {
@@ -1519,6 +1740,21 @@ function getPiiAction(path, matchers) {
   return action;
 }
 
+const PII_ACTION_RANK = { partial: 1, mask: 2, hide: 3 };
+
+// Rules on a parent path cover its sub-fields too, so `email.keyword` (or any
+// other multi-field) gets the rule written for `email`. Takes one field or the
+// requested and aggregated field together and returns the strictest action.
+function getFieldPiiAction(fields, matchers) {
+  const paths = [].concat(fields).filter(Boolean).flatMap((field) => {
+    const parts = String(field).split('.');
+    return parts.map((_, idx) => parts.slice(0, idx + 1).join('.'));
+  });
+  return paths
+    .map((path) => getPiiAction(path, matchers))
+    .reduce((best, action) => ((PII_ACTION_RANK[action] || 0) > (PII_ACTION_RANK[best] || 0) ? action : best), null);
+}
+
 const REMOVE_FIELD = Symbol('remove_field');
 
 function partialMaskValue(value) {
@@ -1572,10 +1808,35 @@ function maskSearchResponse(data, rules) {
   return { ...data, hits: { ...data.hits, hits: maskedHits } };
 }
 
+// Time fields of every pattern in the target, so a range filter matches
+// documents whichever pattern they came from.
 function getIndexTimeFields(indexPattern) {
-  const setting = appConfig.indexPatternSettings.find((entry) => entry.pattern === indexPattern);
-  if (setting?.timeField) return [setting.timeField, 'timestamp', '@timestamp'];
-  return ['timestamp', '@timestamp'];
+  const fields = new Set();
+  splitIndexPatterns(indexPattern).forEach((pattern) => {
+    const setting = appConfig.indexPatternSettings.find((entry) => entry.pattern === pattern);
+    if (setting?.timeField) fields.add(setting.timeField);
+  });
+  return [...fields, 'timestamp', '@timestamp'].filter((field, idx, list) => list.indexOf(field) === idx);
+}
+
+function getIndexSearchFields(indexPattern) {
+  const patterns = splitIndexPatterns(indexPattern);
+  const perPattern = patterns.map((pattern) => {
+    const setting = appConfig.indexPatternSettings.find((entry) => entry.pattern === pattern);
+    return Array.isArray(setting?.searchFields) ? setting.searchFields.filter((field) => field.length > 0) : [];
+  });
+  if (perPattern.every((fields) => fields.length === 0)) return [];
+  // Patterns without configured fields search `message`; keep that when mixing.
+  const fields = new Set(perPattern.flat());
+  if (perPattern.some((fields) => fields.length === 0)) fields.add('message');
+  return [...fields];
+}
+
+function buildQueryStringClause(indexPattern, query) {
+  const fields = getIndexSearchFields(indexPattern);
+  return fields.length > 0
+    ? { query_string: { query, fields } }
+    : { query_string: { query, default_field: 'message' } };
 }
 
 function getRecentCutoffIso() {
@@ -2052,19 +2313,213 @@ async function getStorageUsage() {
   return { totalBytes, files: details };
 }
 
-function getQueryCountSince(query, windowMinutes) {
-  const now = new Date();
-  const buckets = Math.ceil(windowMinutes / 60);
-  let count = 0;
-  for (let i = 0; i < buckets; i += 1) {
-    const d = new Date(now);
-    d.setMinutes(0, 0, 0);
-    d.setHours(d.getHours() - i);
-    const key = getHourKey(d);
-    const bucket = metrics.hourlyQueries[key] || {};
-    count += bucket[query] || 0;
+async function resolveAggregatableField(indexPattern, field) {
+  try {
+    const capsRes = await axios.get(
+      `${getOpensearchBaseUrl()}/${indexPattern}/_field_caps`,
+      {
+        params: { fields: `${field},${field}.keyword` },
+        ...getOpensearchRequestOptions()
+      }
+    );
+    const fieldCaps = capsRes.data?.fields || {};
+    return Object.keys(fieldCaps).length ? pickAggregatableField(field, fieldCaps) : field;
+  } catch {
+    return field;
+  }
+}
+
+function buildRuleConditionQuery(rule, indexPattern, start, end) {
+  const mainQuery = rule.condition === 'ratio' ? (rule.denominatorQuery || '*') : rule.query;
+  return {
+    bool: {
+      must: [buildQueryStringClause(indexPattern, mainQuery)],
+      filter: [buildTimeRangeFilter(indexPattern, start, end)]
+    }
+  };
+}
+
+function buildRuleConditionAggs(rule, indexPattern, aggField) {
+  if (rule.condition === 'ratio') {
+    return { numerator: { filter: buildQueryStringClause(indexPattern, rule.query) } };
+  }
+  if (rule.condition === 'unique_count') {
+    return { value: { cardinality: { field: aggField } } };
+  }
+  if (rule.condition === 'metric') {
+    if (rule.metric === 'percentile') {
+      return { value: { percentiles: { field: aggField, percents: [rule.percentile || 95], keyed: false } } };
+    }
+    return { value: { [rule.metric === 'max' ? 'max' : 'avg']: { field: aggField } } };
+  }
+  return null;
+}
+
+// Reads the evaluated value from a search response or a histogram bucket.
+// Returns null when the condition cannot be evaluated (no data for the metric).
+function readRuleConditionValue(rule, bucket) {
+  const docCount = Number(bucket?.doc_count || 0);
+  if (rule.condition === 'ratio') {
+    return docCount > 0 ? (Number(bucket.numerator?.doc_count || 0) / docCount) * 100 : null;
+  }
+  if (rule.condition === 'unique_count') {
+    return Number(bucket?.value?.value || 0);
+  }
+  if (rule.condition === 'metric') {
+    const raw = rule.metric === 'percentile' ? bucket?.value?.values?.[0]?.value : bucket?.value?.value;
+    return raw === null || raw === undefined ? null : Number(raw);
+  }
+  return docCount;
+}
+
+function isRuleConditionMet(rule, value) {
+  if (value === null || !Number.isFinite(value)) return false;
+  return rule.comparator === 'below' ? value < rule.threshold : value > rule.threshold;
+}
+
+function describeRuleCondition(rule) {
+  const op = rule.comparator === 'below' ? '<' : '>';
+  if (rule.condition === 'ratio') {
+    return `ratio of "${rule.query}" within "${rule.denominatorQuery || '*'}" ${op} ${rule.threshold}%`;
+  }
+  if (rule.condition === 'unique_count') {
+    return `unique_count(${rule.field}) ${op} ${rule.threshold}`;
+  }
+  if (rule.condition === 'metric') {
+    const label = rule.metric === 'percentile' ? `p${rule.percentile || 95}` : rule.metric;
+    return `${label}(${rule.field}) ${op} ${rule.threshold}`;
+  }
+  return `count ${op} ${rule.threshold}`;
+}
+
+function formatRuleValue(value) {
+  if (value === null || !Number.isFinite(value)) return 'n/a';
+  return String(Number.isInteger(value) ? value : Number(value.toFixed(2)));
+}
+
+async function evaluateRule(rule, now = new Date()) {
+  const indexPattern = rule.indexPattern || appConfig.defaultIndexPattern;
+  const windowMinutes = Number(rule.windowMinutes || 60);
+  const start = new Date(now.getTime() - windowMinutes * 60 * 1000).toISOString();
+  const aggField = rule.field ? await resolveAggregatableField(indexPattern, rule.field) : null;
+  if (rule.field && !aggField) {
+    throw new Error(`Field "${rule.field}" is not aggregatable in ${indexPattern}.`);
+  }
+  const body = {
+    size: 0,
+    track_total_hits: true,
+    query: buildRuleConditionQuery(rule, indexPattern, start, now.toISOString())
+  };
+  const aggs = buildRuleConditionAggs(rule, indexPattern, aggField);
+  if (aggs) body.aggs = aggs;
+  const response = await axios.post(
+    `${getOpensearchBaseUrl()}/${indexPattern}/_search`,
+    body,
+    { headers: { 'Content-Type': 'application/json' }, ...getOpensearchRequestOptions() }
+  );
+  const totalRaw = response.data?.hits?.total;
+  const docCount = typeof totalRaw === 'number' ? totalRaw : Number(totalRaw?.value || 0);
+  const value = readRuleConditionValue(rule, { doc_count: docCount, ...(response.data?.aggregations || {}) });
+  return { value, fired: isRuleConditionMet(rule, value) };
+}
+
+async function resolveTimeField(indexPattern) {
+  const candidates = getIndexTimeFields(indexPattern);
+  try {
+    const capsRes = await axios.get(
+      `${getOpensearchBaseUrl()}/${indexPattern}/_field_caps`,
+      {
+        params: { fields: candidates.join(',') },
+        ...getOpensearchRequestOptions()
+      }
+    );
+    const fieldCaps = capsRes.data?.fields || {};
+    return candidates.find((field) => fieldCaps[field]) || candidates[0];
+  } catch {
+    return candidates[0];
+  }
+}
+
+const RULE_PREVIEW_DAYS = 7;
+// One bucket per minute over the whole span, since a rule window can be one
+// minute; well under OpenSearch's default search.max_buckets of 65535.
+const RULE_PREVIEW_MAX_BUCKETS = RULE_PREVIEW_DAYS * 24 * 60;
+
+// Replays a rule over the last RULE_PREVIEW_DAYS using one histogram bucket per
+// window, so each bucket's value is what the scheduler would have evaluated.
+async function previewRule(rule, now = new Date()) {
+  const indexPattern = rule.indexPattern || appConfig.defaultIndexPattern;
+  const spanMinutes = RULE_PREVIEW_DAYS * 24 * 60;
+  const intervalMinutes = Math.max(
+    Number(rule.windowMinutes || 60),
+    Math.ceil(spanMinutes / RULE_PREVIEW_MAX_BUCKETS)
+  );
+  const start = new Date(now.getTime() - spanMinutes * 60 * 1000).toISOString();
+  const end = now.toISOString();
+  const aggField = rule.field ? await resolveAggregatableField(indexPattern, rule.field) : null;
+  if (rule.field && !aggField) {
+    throw new Error(`Field "${rule.field}" is not aggregatable in ${indexPattern}.`);
+  }
+  const timeField = await resolveTimeField(indexPattern);
+  const histogram = {
+    date_histogram: {
+      field: timeField,
+      fixed_interval: `${intervalMinutes}m`,
+      min_doc_count: 0,
+      extended_bounds: { min: start, max: end }
+    }
+  };
+  const aggs = buildRuleConditionAggs(rule, indexPattern, aggField);
+  if (aggs) histogram.aggs = aggs;
+  const response = await axios.post(
+    `${getOpensearchBaseUrl()}/${indexPattern}/_search`,
+    {
+      size: 0,
+      query: buildRuleConditionQuery(rule, indexPattern, start, end),
+      aggs: { buckets: histogram }
+    },
+    { headers: { 'Content-Type': 'application/json' }, ...getOpensearchRequestOptions() }
+  );
+  const buckets = (response.data?.aggregations?.buckets?.buckets || []).map((bucket) => {
+    const value = readRuleConditionValue(rule, bucket);
+    return {
+      time: bucket.key_as_string || new Date(bucket.key).toISOString(),
+      value,
+      fired: isRuleConditionMet(rule, value)
+    };
+  });
+  return {
+    timeField,
+    intervalMinutes,
+    condition: describeRuleCondition(rule),
+    threshold: rule.threshold,
+    buckets,
+    fireCount: buckets.filter((bucket) => bucket.fired).length
+  };
+}
+
+function normalizeRulePreviewBody(body) {
+  const candidate = body && typeof body === 'object' ? body : {};
+  return normalizeRules({ rules: [{ ...candidate, name: candidate.name || 'preview' }] }).rules[0] || null;
+}
+
+async function handleRulePreview(rule, res) {
+  if (!rule) return res.status(400).json({ error: 'Query is required.' });
+  const validationError = getRuleValidationError(rule);
+  if (validationError) return res.status(400).json({ error: validationError });
+  // The window becomes the histogram's fixed_interval, which takes whole units.
+  if (!Number.isInteger(rule.windowMinutes)) {
+    return res.status(400).json({ error: 'Preview needs a window of whole minutes.' });
+  }
+  try {
+    return res.json(await previewRule(rule));
+  } catch (error) {
+    const detail = axios.isAxiosError(error)
+      ? (error.response?.data?.error?.reason || error.response?.data?.error || error.response?.data)
+      : error.message;
+    logError('rule-preview', { indexPattern: rule.indexPattern, detail });
+    return res.status(500).json({ error: 'Rule preview failed.', detail });
   }
-  return count;
 }
 
 async function sendAlertEmail(subject, text, options = {}) {
@@ -2091,38 +2546,195 @@ async function sendAlertEmail(subject, text, options = {}) {
   return true;
 }
 
+// Substitutes {{name}} placeholders. Values are JSON-escaped so webhook body
+// templates stay valid JSON when a placeholder sits inside a string literal.
+function renderChannelTemplate(template, vars) {
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (match, key) => {
+    if (!Object.prototype.hasOwnProperty.call(vars, key)) return match;
+    const value = vars[key] === undefined || vars[key] === null ? '' : String(vars[key]);
+    return JSON.stringify(value).slice(1, -1);
+  });
+}
+
+function buildChannelPayload(channel, message) {
+  if (channel.type === 'slack') {
+    return { text: `*${message.subject}*\n${message.text}` };
+  }
+  if (channel.type === 'teams') {
+    return {
+      '@type': 'MessageCard',
+      '@context': 'https://schema.org/extensions',
+      summary: message.subject,
+      title: message.subject,
+      text: message.text.split('\n').join('\n\n')
+    };
+  }
+  const vars = { subject: message.subject, text: message.text, ...(message.vars || {}) };
+  if (!channel.bodyTemplate.trim()) return vars;
+  return JSON.parse(renderChannelTemplate(channel.bodyTemplate, vars));
+}
+
+function getChannelValidationError(channel) {
+  if (channel.type === 'email') {
+    return channel.to ? null : `Channel "${channel.name}" needs an email recipient.`;
+  }
+  if (!/^https?:\/\//i.test(channel.url)) {
+    return `Channel "${channel.name}" needs an http(s) URL.`;
+  }
+  if (channel.type === 'webhook' && channel.bodyTemplate.trim()) {
+    try {
+      buildChannelPayload(channel, { subject: 'test', text: 'test', vars: {} });
+    } catch {
+      return `Channel "${channel.name}" body template is not valid JSON.`;
+    }
+  }
+  return null;
+}
+
+async function sendToChannel(channel, message) {
+  if (channel.type === 'email') {
+    return sendAlertEmail(message.subject, message.text, { to: channel.to });
+  }
+  await axios.post(channel.url, buildChannelPayload(channel, message), {
+    headers: { 'Content-Type': 'application/json', ...channel.headers },
+    timeout: 10000
+  });
+  return true;
+}
+
+// Sends an alert to the rule's channels, plus its ad-hoc email (or the default
+// alert recipient when the rule has no channels). Returns one result per target.
+async function deliverRuleAlert(rule, message) {
+  const targets = (rule.channelIds || [])
+    .map((id) => channels.channels.find((entry) => entry.id === id))
+    .filter((entry) => entry && entry.enabled);
+  const email = rule.email ? String(rule.email).trim() : '';
+  if (email || targets.length === 0) {
+    targets.push({ id: null, name: email || 'default email', type: 'email', to: email });
+  }
+  const results = [];
+  for (const channel of targets) {
+    try {
+      const sent = await sendToChannel(channel, message);
+      results.push({ channelId: channel.id, name: channel.name, type: channel.type, status: sent ? 'sent' : 'skipped' });
+    } catch (error) {
+      const detail = axios.isAxiosError(error)
+        ? (error.response ? `HTTP ${error.response.status}` : error.message)
+        : error.message;
+      console.error(`Failed to deliver alert to ${channel.name}:`, detail);
+      results.push({ channelId: channel.id, name: channel.name, type: channel.type, status: 'failed', error: detail });
+    }
+  }
+  return results;
+}
+
+async function fetchRuleSampleHits(rule, now) {
+  const indexPattern = rule.indexPattern || appConfig.defaultIndexPattern;
+  const windowMinutes = Number(rule.windowMinutes || 60);
+  const start = new Date(now.getTime() - windowMinutes * 60 * 1000).toISOString();
+  const response = await axios.post(
+    `${getOpensearchBaseUrl()}/${indexPattern}/_search`,
+    {
+      size: 3,
+      query: {
+        bool: {
+          must: [buildQueryStringClause(indexPattern, rule.query)],
+          filter: [buildTimeRangeFilter(indexPattern, start, now.toISOString())]
+        }
+      },
+      sort: getIndexTimeFields(indexPattern).map((timeField) => ({ [timeField]: { order: 'desc', unmapped_type: 'date' } }))
+    },
+    { headers: { 'Content-Type': 'application/json' }, ...getOpensearchRequestOptions() }
+  );
+  return (response.data?.hits?.hits || []).map((hit) => ({ _id: hit._id, _index: hit._index, _source: hit._source }));
+}
+
+function recordAlertEvent(event) {
+  alertEvents.events.unshift({ id: crypto.randomUUID(), acknowledgedAt: null, acknowledgedBy: null, ...event });
+  alertEvents.events = alertEvents.events.slice(0, 500);
+  saveJson(ALERT_EVENTS_PATH, alertEvents);
+}
+
+function isRuleSnoozed(ruleId, now = new Date()) {
+  const until = rulesState.snoozedUntil[ruleId];
+  return Boolean(until) && new Date(until).getTime() > now.getTime();
+}
+
 async function runRuleChecks() {
   if (!rules.rules || rules.rules.length === 0) return;
   const now = new Date();
   for (const rule of rules.rules) {
     const query = String(rule.query || '').trim();
+    const indexPattern = rule.indexPattern || appConfig.defaultIndexPattern;
     const threshold = Number(rule.threshold || 0);
     const windowMinutes = Number(rule.windowMinutes || 60);
-    const email = rule.email ? String(rule.email).trim() : '';
-    if (!query || !Number.isFinite(threshold) || threshold < 1) continue;
-    const count = getQueryCountSince(query, windowMinutes);
+    if (!query || getRuleValidationError(rule) || isRuleSnoozed(rule.id, now)) continue;
+    let result;
+    try {
+      result = await evaluateRule(rule, now);
+    } catch (error) {
+      const detail = axios.isAxiosError(error)
+        ? (error.response?.data?.error?.reason || error.response?.data?.error || error.response?.data)
+        : error.message;
+      console.error('Rule check failed:', detail || error.message);
+      logError('rule-check', { ruleId: rule.id, indexPattern, detail });
+      continue;
+    }
     const last = rulesState.lastTriggeredAt[rule.id] || '';
     const lastTime = last ? new Date(last) : null;
     const withinWindow = lastTime && now.getTime() - lastTime.getTime() < windowMinutes * 60 * 1000;
-    if (count > threshold && !withinWindow) {
+    if (result.fired && !withinWindow) {
       const ruleName = rule.name || rule.id;
-      const subject = `Alert: "${query}" exceeded ${threshold}/${windowMinutes}m`;
+      const condition = describeRuleCondition(rule);
+      const subject = `Alert: "${query}" ${condition} over ${windowMinutes}m`;
       const text = [
         `Rule: ${ruleName}`,
         `Rule ID: ${rule.id}`,
         `Triggered at: ${now.toISOString()}`,
         `Query: ${query}`,
+        `Index pattern: ${indexPattern}`,
+        `Condition: ${condition}`,
         `Threshold: ${threshold}`,
         `Window (minutes): ${windowMinutes}`,
-        `Count: ${count}`,
+        `Value: ${formatRuleValue(result.value)}`,
         rule.team ? `Team: ${rule.team}` : null
       ].filter(Boolean).join('\n');
+      const vars = {
+        ruleId: rule.id,
+        ruleName,
+        query,
+        indexPattern,
+        condition,
+        threshold,
+        windowMinutes,
+        value: formatRuleValue(result.value),
+        team: rule.team || '',
+        triggeredAt: now.toISOString()
+      };
+      const deliveries = await deliverRuleAlert(rule, { subject, text, vars });
+      let sampleHits = [];
       try {
-        await sendAlertEmail(subject, text, { to: email || undefined });
+        sampleHits = await fetchRuleSampleHits(rule, now);
+      } catch (error) {
+        console.error('Failed to fetch alert sample hits:', error.message);
+      }
+      recordAlertEvent({
+        ruleId: rule.id,
+        ruleName,
+        team: rule.team || null,
+        query,
+        indexPattern,
+        condition,
+        value: result.value,
+        threshold,
+        windowMinutes,
+        triggeredAt: now.toISOString(),
+        sampleHits,
+        deliveries
+      });
+      if (deliveries.some((entry) => entry.status !== 'failed')) {
         rulesState.lastTriggeredAt[rule.id] = now.toISOString();
         saveJson(RULES_STATE_PATH, rulesState);
-      } catch (err) {
-        console.error('Failed to send alert email:', err.message);
       }
     }
   }
@@ -2274,6 +2886,7 @@ app.get('/api/team-bookmarks', (req, res) => {
 app.post('/api/team-bookmarks', (req, res) => {
   const name = String(req.body?.name || '').trim();
   const query = String(req.body?.query || '').trim();
+  const state = normalizeSavedSearchState(req.body?.state);
   let team = req.body?.team ? String(req.body.team).trim() : undefined;
   if (authEnabled()) {
     if (!req.user) return res.status(401).json({ error: 'Unauthorized' });
@@ -2282,17 +2895,17 @@ app.post('/api/team-bookmarks', (req, res) => {
     if (req.user.role === 'viewer') return res.status(403).json({ error: 'Forbidden' });
     team = team || req.user.teams[0] || DEFAULT_TEAM;
   }
-  if (!name || !query) {
+  if (!name || (!query && !state)) {
     return res.status(400).json({ error: 'Name and query are required.' });
   }
   if (authEnabled() && req.user.role !== 'admin' && !req.user.teams.includes(team)) {
     return res.status(403).json({ error: 'Forbidden' });
   }
   const existing = teamBookmarks.bookmarks.find(
-    (b) => b.name === name && b.query === query && b.team === team
+    (b) => b.name === name && b.query === query && b.team === team && JSON.stringify(b.state) === JSON.stringify(state)
   );
   if (existing) return res.json(existing);
-  const bookmark = { id: crypto.randomUUID(), name, query, team, createdAt: new Date().toISOString() };
+  const bookmark = { id: crypto.randomUUID(), name, query, team, state, createdAt: new Date().toISOString() };
   teamBookmarks.bookmarks.push(bookmark);
   saveJson(TEAM_BOOKMARKS_PATH, teamBookmarks);
   logActivity('bookmark_add', {
@@ -2304,6 +2917,140 @@ app.post('/api/team-bookmarks', (req, res) => {
   res.json(bookmark);
 });
 
+// Personal saved searches, stored per user so they follow them across browsers.
+function getSavedSearchUserKey(req) {
+  return authEnabled() && req.user ? req.user.id : 'public';
+}
+
+function toSavedSearchResponse(entry) {
+  const { userKey, ...rest } = entry;
+  return rest;
+}
+
+app.get('/api/saved-searches', (req, res) => {
+  const userKey = getSavedSearchUserKey(req);
+  res.json(savedSearches.searches.filter((entry) => entry.userKey === userKey).map(toSavedSearchResponse));
+});
+
+// Saving under an existing name is refused with 409 unless `overwrite` is set.
+app.post('/api/saved-searches', (req, res) => {
+  const userKey = getSavedSearchUserKey(req);
+  const name = String(req.body?.name || '').trim();
+  const query = String(req.body?.query || '').trim();
+  const state = normalizeSavedSearchState(req.body?.state);
+  if (!name || (!query && !state)) {
+    return res.status(400).json({ error: 'Name and query are required.' });
+  }
+  if (Buffer.byteLength(JSON.stringify({ name, query, state })) > SAVED_SEARCH_MAX_BYTES) {
+    return res.status(413).json({ error: 'Saved search is too large.' });
+  }
+  const now = new Date().toISOString();
+  const existing = savedSearches.searches.find((entry) => entry.userKey === userKey && entry.name === name);
+  if (existing && req.body?.overwrite !== true) {
+    return res.status(409).json({ error: `A saved search named "${name}" already exists.` });
+  }
+  if (!existing && savedSearches.searches.filter((entry) => entry.userKey === userKey).length >= SAVED_SEARCH_MAX_PER_USER) {
+    return res.status(400).json({ error: `You can keep up to ${SAVED_SEARCH_MAX_PER_USER} saved searches. Delete some to save more.` });
+  }
+  if (existing) {
+    existing.query = query;
+    existing.state = state;
+    existing.updatedAt = now;
+  } else {
+    savedSearches.searches.push({ id: crypto.randomUUID(), userKey, name, query, state, createdAt: now, updatedAt: now });
+  }
+  saveJson(SAVED_SEARCHES_PATH, savedSearches);
+  const saved = savedSearches.searches.find((entry) => entry.userKey === userKey && entry.name === name);
+  res.json(toSavedSearchResponse(saved));
+});
+
+app.delete('/api/saved-searches/:id', (req, res) => {
+  const userKey = getSavedSearchUserKey(req);
+  const before = savedSearches.searches.length;
+  savedSearches.searches = savedSearches.searches.filter((entry) => !(entry.id === req.params.id && entry.userKey === userKey));
+  saveJson(SAVED_SEARCHES_PATH, savedSearches);
+  res.json({ removed: before - savedSearches.searches.length });
+});
+
+// Short links: the full search state (builder groups included) is kept
+// server-side so the shared URL stays short.
+function isShortLinkExpired(link) {
+  return Boolean(link.expiresAt) && Date.parse(link.expiresAt) <= Date.now();
+}
+
+app.post('/api/links', (req, res) => {
+  const query = String(req.body?.query || '');
+  const state = normalizeSavedSearchState(req.body?.state);
+  if (!query && !state) {
+    return res.status(400).json({ error: 'Query or search state is required.' });
+  }
+  if (Buffer.byteLength(JSON.stringify({ query, state })) > SAVED_SEARCH_MAX_BYTES) {
+    return res.status(413).json({ error: 'Search is too large to share as a link.' });
+  }
+  const expiresInDays = Number(req.body?.expiresInDays) || 0;
+  if (expiresInDays && !SHORT_LINK_EXPIRY_DAYS.includes(expiresInDays)) {
+    return res.status(400).json({ error: `Expiry must be one of ${SHORT_LINK_EXPIRY_DAYS.join(', ')} days.` });
+  }
+  const createdBy = authEnabled() && req.user ? req.user.username : 'public';
+  const createdById = authEnabled() && req.user ? req.user.id : undefined;
+  const createdIp = createdById ? undefined : req.ip;
+  const own = shortLinks.links.filter((entry) => (createdById ? entry.createdById === createdById : entry.createdIp === createdIp) && !isShortLinkExpired(entry));
+  if (own.length >= SHORT_LINK_MAX_ACTIVE) {
+    return res.status(429).json({ error: `You have ${SHORT_LINK_MAX_ACTIVE} active short links. Ask an admin to remove unused ones.` });
+  }
+  const hourAgo = Date.now() - 60 * 60 * 1000;
+  if (own.filter((entry) => new Date(entry.createdAt).getTime() > hourAgo).length >= SHORT_LINK_MAX_PER_HOUR) {
+    return res.status(429).json({ error: 'Too many short links created in the last hour. Try again later.' });
+  }
+  let id = crypto.randomBytes(6).toString('base64url');
+  while (shortLinks.links.some((entry) => entry.id === id)) {
+    id = crypto.randomBytes(6).toString('base64url');
+  }
+  const now = new Date();
+  const page = Number(req.body?.page);
+  const link = {
+    id,
+    query,
+    state,
+    page: Number.isInteger(page) && page > 1 ? page : undefined,
+    hit: req.body?.hit ? String(req.body.hit) : undefined,
+    createdBy,
+    createdById,
+    createdIp,
+    createdAt: now.toISOString(),
+    expiresAt: expiresInDays ? new Date(now.getTime() + expiresInDays * 24 * 60 * 60 * 1000).toISOString() : undefined,
+    openCount: 0
+  };
+  shortLinks.links.push(link);
+  saveJson(LINKS_PATH, shortLinks);
+  res.json({ id, path: `/s/${id}`, expiresAt: link.expiresAt });
+});
+
+let shortLinkStatsTimer = null;
+
+function scheduleShortLinkStatsSave() {
+  if (shortLinkStatsTimer) return;
+  shortLinkStatsTimer = setTimeout(() => {
+    shortLinkStatsTimer = null;
+    saveJson(LINKS_PATH, shortLinks);
+  }, SHORT_LINK_STATS_SAVE_MS);
+}
+
+// Opening a link re-checks index access for whoever follows it, not the creator.
+app.get('/api/links/:id', (req, res) => {
+  const link = shortLinks.links.find((entry) => entry.id === req.params.id);
+  if (!link) return res.status(404).json({ error: 'Link not found.' });
+  if (isShortLinkExpired(link)) return res.status(410).json({ error: 'This link has expired.' });
+  const indexPattern = link.state?.indexPattern;
+  if (indexPattern && authEnabled() && req.user && !isIndexPatternAllowed(req.user, indexPattern)) {
+    return res.status(403).json({ error: `You do not have access to ${indexPattern}.` });
+  }
+  link.lastOpenedAt = new Date().toISOString();
+  link.openCount += 1;
+  scheduleShortLinkStatsSave();
+  res.json({ query: link.query, state: link.state, page: link.page, hit: link.hit });
+});
+
 // User import (upload page)
 app.get('/api/import/history', (req, res) => {
   res.json((importJobs.jobs || []).slice(0, 5));
@@ -2406,6 +3153,9 @@ app.post('/api/field-explorer', async (req, res) => {
   const fields = Array.isArray(req.body?.fields) && req.body.fields.length > 0
     ? req.body.fields
     : appConfig.fieldExplorerFields;
+  // The search body's query (as built by fetchResults) narrows the counts to the
+  // current results; without it the explorer summarizes the whole time range.
+  const searchQuery = req.body?.query && typeof req.body.query === 'object' ? req.body.query : null;
 
   const userKey = authEnabled() && req.user ? req.user.id : 'public';
   const features = authEnabled() && req.user ? getUserFeatures(req.user) : { limitTo7Days: false };
@@ -2425,7 +3175,8 @@ app.post('/api/field-explorer', async (req, res) => {
     start,
     end,
     topN,
-    JSON.stringify(fields)
+    JSON.stringify(fields),
+    JSON.stringify(searchQuery || {})
   ]);
   const cached = cacheGet(cacheKey);
   if (cached) return res.json(cached);
@@ -2474,6 +3225,7 @@ app.post('/api/field-explorer', async (req, res) => {
 
   const query = {
     bool: {
+      must: searchQuery ? [searchQuery] : [],
       filter: []
     }
   };
@@ -2507,17 +3259,616 @@ app.post('/api/field-explorer', async (req, res) => {
   }
 });
 
-// === Search endpoint ===
-app.post('/api/search/:indexPattern/_search', async (req, res) => {
+const NUMERIC_FIELD_TYPES = ['long', 'integer', 'short', 'byte', 'double', 'float', 'half_float', 'scaled_float', 'unsigned_long'];
+
+// Statistics for a single field over the current search: top values, how many
+// hits lack the field, and min/max/avg/percentiles for numeric fields.
+app.post('/api/field-stats', async (req, res) => {
+  const indexPattern = req.body?.indexPattern || appConfig.defaultIndexPattern;
+  const field = String(req.body?.field || '').trim();
+  const start = req.body?.start;
+  const end = req.body?.end;
+  const clause = req.body?.query && typeof req.body.query === 'object' ? req.body.query : null;
+  const topN = Math.min(Math.max(Number(req.body?.topN || appConfig.fieldExplorerTopN || 10), 1), 50);
+  if (!field) return res.status(400).json({ error: 'Field is required.' });
+
+  const userKey = authEnabled() && req.user ? req.user.id : 'public';
+  const features = authEnabled() && req.user ? getUserFeatures(req.user) : { limitTo7Days: false, piiUnmasked: false };
+  if (authEnabled() && req.user && !isIndexPatternAllowed(req.user, indexPattern)) {
+    return res.status(403).json({ error: 'Index not allowed for your team.' });
+  }
+  const piiMatchers = features.piiUnmasked ? [] : buildPiiMatchers(appConfig.piiFieldRules);
+  let piiAction = getFieldPiiAction(field, piiMatchers);
+  if (piiAction === 'hide') {
+    return res.status(403).json({ error: 'Statistics are not available for this field.' });
+  }
+  const cacheKey = getCacheKey([
+    'field-stats',
+    userKey,
+    indexPattern,
+    features.limitTo7Days ? 'recent-only' : 'all',
+    piiAction || 'clear',
+    field,
+    start,
+    end,
+    topN,
+    JSON.stringify(clause || {})
+  ]);
+  const cached = cacheGet(cacheKey);
+  if (cached) return res.json(cached);
+
+  let fieldCaps = {};
   try {
-    const userKey = authEnabled() && req.user ? req.user.id : 'public';
+    const capsRes = await axios.get(
+      `${getOpensearchBaseUrl()}/${indexPattern}/_field_caps`,
+      {
+        params: { fields: `${field},${field}.keyword` },
+        ...getOpensearchRequestOptions()
+      }
+    );
+    fieldCaps = capsRes.data?.fields || {};
+  } catch (err) {
+    console.warn('Field caps failed, falling back to raw fields.');
+  }
+  const actualField = Object.keys(fieldCaps).length ? pickAggregatableField(field, fieldCaps) : field;
+  if (!actualField) {
+    return res.status(400).json({ error: `${field} is not aggregatable in ${indexPattern}.` });
+  }
+  piiAction = getFieldPiiAction([field, actualField], piiMatchers);
+  if (piiAction === 'hide') {
+    return res.status(403).json({ error: 'Statistics are not available for this field.' });
+  }
+  const type = Object.keys(fieldCaps[actualField] || {})[0] || 'unknown';
+  const numeric = NUMERIC_FIELD_TYPES.includes(type) && !piiAction;
+
+  const query = {
+    bool: {
+      must: clause ? [clause] : [],
+      filter: []
+    }
+  };
+  if (start && end) {
+    query.bool.filter.push(buildTimeRangeFilter(indexPattern, start, end));
+  }
+  if (features.limitTo7Days) {
+    query.bool.filter.push(buildRecentOnlyFilter(indexPattern));
+  }
+  const aggs = {
+    values: { terms: { field: actualField, size: topN } },
+    missing: { missing: { field: actualField } }
+  };
+  if (numeric) {
+    aggs.stats = { stats: { field: actualField } };
+    aggs.percentiles = { percentiles: { field: actualField, percents: [50, 90, 95, 99] } };
+  }
+
+  try {
+    const response = await axios.post(
+      `${getOpensearchBaseUrl()}/${indexPattern}/_search`,
+      { size: 0, track_total_hits: true, query, aggs },
+      { headers: { 'Content-Type': 'application/json' }, ...getOpensearchRequestOptions() }
+    );
+    const aggregations = response.data?.aggregations || {};
+    const totalRaw = response.data?.hits?.total;
+    const total = typeof totalRaw === 'number' ? totalRaw : (totalRaw?.value ?? 0);
+    const missing = aggregations.missing?.doc_count ?? 0;
+    const maskValue = (value) => {
+      if (piiAction === 'mask') return '[masked]';
+      if (piiAction === 'partial') return partialMaskValue(value);
+      return value;
+    };
+    const payload = {
+      field,
+      actualField,
+      type,
+      total,
+      missing,
+      missingPercent: total > 0 ? (missing / total) * 100 : 0,
+      values: (aggregations.values?.buckets || []).map((b) => ({ value: maskValue(b.key_as_string ?? b.key), count: b.doc_count })),
+      numeric: numeric
+        ? {
+            min: aggregations.stats?.min ?? null,
+            max: aggregations.stats?.max ?? null,
+            avg: aggregations.stats?.avg ?? null,
+            percentiles: aggregations.percentiles?.values || {}
+          }
+        : null
+    };
+    cacheSet(cacheKey, payload);
+    res.json(payload);
+  } catch (error) {
+    const detail = axios.isAxiosError(error)
+      ? (error.response?.data?.error?.reason || error.response?.data?.error || error.response?.data)
+      : error.message;
+    logError('field-stats', { detail, indexPattern, field });
+    res.status(500).json({ error: 'Field statistics failed', detail });
+  }
+});
+
+// === Compare endpoint ===
+// Runs the same query over two time ranges (current and baseline) in a single
+// _msearch: hit count, histogram and Field Explorer top values for each.
+const COMPARE_MAX_BUCKETS = 200;
+
+function buildCompareHistogramAggs(indexPattern, start, end, intervalMs) {
+  // Later time fields only count documents missing the earlier ones, matching
+  // the bool/should filter from buildTimeRangeFilter.
+  const fields = getIndexTimeFields(indexPattern);
+  const aggs = {};
+  fields.forEach((field, idx) => {
+    const histogram = {
+      date_histogram: {
+        field,
+        fixed_interval: `${Math.round(intervalMs / 1000)}s`,
+        min_doc_count: 0,
+        extended_bounds: { min: Date.parse(start), max: Date.parse(end) }
+      }
+    };
+    const earlier = fields.slice(0, idx);
+    aggs[`timeline_${idx}`] = earlier.length === 0
+      ? histogram
+      : { filter: { bool: { must_not: earlier.map((name) => ({ exists: { field: name } })) } }, aggs: { histogram } };
+  });
+  return { aggs, fieldCount: fields.length };
+}
+
+function readCompareHistogram(aggregations, fieldCount) {
+  const counts = new Map();
+  for (let idx = 0; idx < fieldCount; idx += 1) {
+    const agg = aggregations?.[`timeline_${idx}`];
+    const buckets = idx === 0 ? agg?.buckets : agg?.histogram?.buckets;
+    (buckets || []).forEach((bucket) => {
+      counts.set(bucket.key, (counts.get(bucket.key) || 0) + bucket.doc_count);
+    });
+  }
+  return Array.from(counts.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([key, count]) => ({ key, count }));
+}
+
+app.post('/api/compare', async (req, res) => {
+  const indexPattern = req.body?.indexPattern || appConfig.defaultIndexPattern;
+  const clause = req.body?.query && typeof req.body.query === 'object' ? req.body.query : null;
+  const ranges = Array.isArray(req.body?.ranges) ? req.body.ranges : [];
+  const topN = Math.min(Math.max(Number(req.body?.topN || appConfig.fieldExplorerTopN || 10), 1), 50);
+  const fields = (Array.isArray(req.body?.fields) && req.body.fields.length > 0 ? req.body.fields : appConfig.fieldExplorerFields)
+    .slice(0, 30)
+    .map((field) => String(field).trim())
+    .filter(Boolean);
+  if (ranges.length !== 2 || ranges.some((range) => !range || Number.isNaN(Date.parse(range.start)) || Number.isNaN(Date.parse(range.end)))) {
+    return res.status(400).json({ error: 'Two time ranges with start and end are required.' });
+  }
+  const span = Math.max(1000, Date.parse(ranges[0].end) - Date.parse(ranges[0].start));
+  const intervalMs = Math.max(Number(req.body?.intervalMs) || 0, 1000, Math.ceil(span / COMPARE_MAX_BUCKETS / 1000) * 1000);
+
+  const userKey = authEnabled() && req.user ? req.user.id : 'public';
+  const features = authEnabled() && req.user ? getUserFeatures(req.user) : { limitTo7Days: false, piiUnmasked: false };
+  if (authEnabled() && req.user && !isIndexPatternAllowed(req.user, indexPattern)) {
+    return res.status(403).json({ error: 'Index not allowed for your team.' });
+  }
+  const cacheKey = getCacheKey([
+    'compare',
+    userKey,
+    indexPattern,
+    features.limitTo7Days ? 'recent-only' : 'all',
+    features.piiUnmasked ? 'pii-unmasked' : 'pii-masked',
+    JSON.stringify(appConfig.piiFieldRules || []),
+    JSON.stringify(ranges.map((range) => [range.start, range.end])),
+    intervalMs,
+    topN,
+    JSON.stringify(fields),
+    JSON.stringify(clause || {})
+  ]);
+  const cached = cacheGet(cacheKey);
+  if (cached) return res.json(cached);
+
+  // Hidden PII fields are left out; masked ones still count, with masked values.
+  const piiMatchers = features.piiUnmasked ? [] : buildPiiMatchers(appConfig.piiFieldRules);
+  const visibleFields = fields
+    .map((field) => ({ field, piiAction: getFieldPiiAction(field, piiMatchers) }))
+    .filter((entry) => entry.piiAction !== 'hide');
+  let fieldCaps = {};
+  if (visibleFields.length > 0) {
+    try {
+      const capsRes = await axios.get(
+        `${getOpensearchBaseUrl()}/${indexPattern}/_field_caps`,
+        {
+          params: { fields: visibleFields.flatMap(({ field }) => [field, `${field}.keyword`]).join(',') },
+          ...getOpensearchRequestOptions()
+        }
+      );
+      fieldCaps = capsRes.data?.fields || {};
+    } catch (err) {
+      console.warn('Field caps failed, falling back to raw fields.');
+    }
+  }
+  const aggMap = visibleFields
+    .map(({ field }) => {
+      const actualField = Object.keys(fieldCaps).length ? pickAggregatableField(field, fieldCaps) : field;
+      return {
+        field,
+        piiAction: getFieldPiiAction([field, actualField], piiMatchers),
+        aggName: sanitizeAggName(field),
+        actualField
+      };
+    })
+    .filter((entry) => entry.actualField && entry.piiAction !== 'hide');
+
+  const searches = ranges.map((range) => {
+    const start = new Date(range.start).toISOString();
+    const end = new Date(range.end).toISOString();
+    const filter = [buildTimeRangeFilter(indexPattern, start, end)];
+    if (features.limitTo7Days) filter.push(buildRecentOnlyFilter(indexPattern));
+    const histogram = buildCompareHistogramAggs(indexPattern, start, end, intervalMs);
+    const aggs = { ...histogram.aggs };
+    aggMap.forEach(({ aggName, actualField }) => {
+      aggs[`field_${aggName}`] = { terms: { field: actualField, size: topN } };
+    });
+    return {
+      start,
+      end,
+      fieldCount: histogram.fieldCount,
+      body: { size: 0, track_total_hits: true, query: { bool: { must: clause ? [clause] : [], filter } }, aggs }
+    };
+  });
+  const ndjson = searches.map((search) => `${JSON.stringify({})}\n${JSON.stringify(search.body)}\n`).join('');
+
+  try {
+    const response = await axios.post(
+      `${getOpensearchBaseUrl()}/${indexPattern}/_msearch`,
+      ndjson,
+      { headers: { 'Content-Type': 'application/x-ndjson' }, ...getOpensearchRequestOptions() }
+    );
+    const responses = response.data?.responses || [];
+    const failed = responses.find((entry) => entry?.error);
+    if (failed || responses.length !== searches.length) {
+      const detail = failed?.error?.reason || failed?.error || 'Incomplete _msearch response';
+      logError('compare', { detail, indexPattern });
+      return res.status(502).json({ error: 'Comparison failed', detail });
+    }
+    const maskValue = (value, piiAction) => {
+      if (piiAction === 'mask') return '[masked]';
+      if (piiAction === 'partial') return partialMaskValue(value);
+      return value;
+    };
+    const payload = {
+      intervalMs,
+      ranges: searches.map((search, idx) => {
+        const data = responses[idx];
+        const totalRaw = data?.hits?.total;
+        const aggregations = data?.aggregations || {};
+        return {
+          start: search.start,
+          end: search.end,
+          total: typeof totalRaw === 'number' ? totalRaw : (totalRaw?.value ?? 0),
+          buckets: readCompareHistogram(aggregations, search.fieldCount),
+          fields: aggMap.map(({ field, actualField, aggName, piiAction }) => ({
+            field,
+            actualField,
+            values: (aggregations[`field_${aggName}`]?.buckets || [])
+              .map((b) => ({ value: maskValue(b.key_as_string ?? b.key, piiAction), count: b.doc_count }))
+          }))
+        };
+      })
+    };
+    cacheSet(cacheKey, payload);
+    res.json(payload);
+  } catch (error) {
+    const detail = axios.isAxiosError(error)
+      ? (error.response?.data?.error?.reason || error.response?.data?.error || error.response?.data)
+      : error.message;
+    logError('compare', { detail, indexPattern });
+    res.status(500).json({ error: 'Comparison failed', detail });
+  }
+});
+
+// === Patterns endpoint ===
+// Groups a capped sample of the current search into message templates by
+// masking the parts that vary between otherwise identical lines.
+const PATTERN_SAMPLE_MAX = 2000;
+const PATTERN_MAX_TEMPLATES = 100;
+const PATTERN_SAMPLES_PER_TEMPLATE = 3;
+const PATTERN_MASKS = [
+  { regex: /"(?:[^"\\]|\\.)*"|(?<!\w)'(?:[^'\\]|\\.)*'/g, token: '<STR>' },
+  { regex: /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, token: '<UUID>' },
+  { regex: /\b\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}:\d{2}(?:[.,]\d+)?(?:Z|[+-]\d{2}:?\d{2})?)?\b|\b\d{2}:\d{2}:\d{2}(?:[.,]\d+)?\b/g, token: '<TIME>' },
+  { regex: /\b(?:\d{1,3}\.){3}\d{1,3}(?::\d+)?\b/g, token: '<IP>' },
+  { regex: /\b[0-9a-f]{1,4}(?::[0-9a-f]{0,4}){2,7}\b/gi, token: '<IP>' },
+  { regex: /\b0x[0-9a-f]+\b|\b(?=[0-9a-f]*\d)(?=[0-9a-f]*[a-f])[0-9a-f]{8,}\b/gi, token: '<HEX>' },
+  // Digits glued to a word ("v2", "s3") are part of a name, not a value.
+  { regex: /(?<![A-Za-z_\d.])\d+(?:\.\d+)?/g, token: '<NUM>' }
+];
+
+function buildMessageTemplate(message) {
+  let template = String(message);
+  PATTERN_MASKS.forEach(({ regex, token }) => {
+    template = template.replace(regex, token);
+  });
+  return template.replace(/\s+/g, ' ').trim();
+}
+
+app.post('/api/patterns', async (req, res) => {
+  const indexPattern = req.body?.indexPattern || appConfig.defaultIndexPattern;
+  const clause = req.body?.query && typeof req.body.query === 'object' ? req.body.query : null;
+  const field = String(req.body?.field || 'message').trim();
+  const start = req.body?.start;
+  const end = req.body?.end;
+  const sampleSize = Math.min(Math.max(Number(req.body?.sampleSize) || PATTERN_SAMPLE_MAX, 1), PATTERN_SAMPLE_MAX);
+
+  const userKey = authEnabled() && req.user ? req.user.id : 'public';
+  const features = authEnabled() && req.user ? getUserFeatures(req.user) : { limitTo7Days: false, piiUnmasked: false };
+  if (authEnabled() && req.user && !isIndexPatternAllowed(req.user, indexPattern)) {
+    return res.status(403).json({ error: 'Index not allowed for your team.' });
+  }
+  // Templates and samples would expose the raw text of a protected field.
+  if (!features.piiUnmasked && getFieldPiiAction(field, buildPiiMatchers(appConfig.piiFieldRules))) {
+    return res.status(403).json({ error: 'Patterns are not available for this field.' });
+  }
+  const cacheKey = getCacheKey([
+    'patterns',
+    userKey,
+    indexPattern,
+    features.limitTo7Days ? 'recent-only' : 'all',
+    field,
+    start,
+    end,
+    sampleSize,
+    JSON.stringify(clause || {})
+  ]);
+  const cached = cacheGet(cacheKey);
+  if (cached) return res.json(cached);
+
+  const timeFields = getIndexTimeFields(indexPattern);
+  const query = { bool: { must: clause ? [clause] : [], filter: [{ exists: { field } }] } };
+  if (start && end) query.bool.filter.push(buildTimeRangeFilter(indexPattern, start, end));
+  if (features.limitTo7Days) query.bool.filter.push(buildRecentOnlyFilter(indexPattern));
+
+  try {
+    const response = await axios.post(
+      `${getOpensearchBaseUrl()}/${indexPattern}/_search`,
+      {
+        size: sampleSize,
+        track_total_hits: true,
+        query,
+        _source: [field, ...timeFields],
+        sort: timeFields.map((timeField) => ({ [timeField]: { order: 'desc', unmapped_type: 'date' } }))
+      },
+      { headers: { 'Content-Type': 'application/json' }, ...getOpensearchRequestOptions() }
+    );
+    // Object fields are grouped by their JSON, so protected sub-fields are
+    // masked before anything is read from the hits.
+    const rawHits = response.data?.hits?.hits || [];
+    const hits = features.piiUnmasked ? rawHits : applyPiiRulesToHits(rawHits, appConfig.piiFieldRules);
+    const totalRaw = response.data?.hits?.total;
+    const groups = new Map();
+    hits.forEach((hit) => {
+      const source = hit._source || {};
+      const raw = source[field] ?? field.split('.').reduce((acc, part) => (acc && typeof acc === 'object' ? acc[part] : undefined), source);
+      if (raw === undefined || raw === null || raw === '') return;
+      const message = typeof raw === 'string' ? raw : JSON.stringify(raw);
+      const template = buildMessageTemplate(message);
+      const time = getHitTimestamp(hit, indexPattern);
+      const group = groups.get(template) || { template, count: 0, firstSeen: null, lastSeen: null, samples: [] };
+      group.count += 1;
+      if (time && (!group.firstSeen || time < group.firstSeen)) group.firstSeen = time;
+      if (time && (!group.lastSeen || time > group.lastSeen)) group.lastSeen = time;
+      if (group.samples.length < PATTERN_SAMPLES_PER_TEMPLATE) {
+        group.samples.push({ _id: hit._id, _index: hit._index, timestamp: time ? time.toISOString() : null, message });
+      }
+      groups.set(template, group);
+    });
+    const payload = {
+      field,
+      sampled: hits.length,
+      total: typeof totalRaw === 'number' ? totalRaw : (totalRaw?.value ?? 0),
+      patterns: Array.from(groups.values())
+        .sort((a, b) => b.count - a.count)
+        .slice(0, PATTERN_MAX_TEMPLATES)
+        .map((group) => ({
+          ...group,
+          firstSeen: group.firstSeen ? group.firstSeen.toISOString() : null,
+          lastSeen: group.lastSeen ? group.lastSeen.toISOString() : null
+        }))
+    };
+    cacheSet(cacheKey, payload);
+    res.json(payload);
+  } catch (error) {
+    const detail = axios.isAxiosError(error)
+      ? (error.response?.data?.error?.reason || error.response?.data?.error || error.response?.data)
+      : error.message;
+    logError('patterns', { detail, indexPattern });
+    res.status(500).json({ error: 'Pattern grouping failed', detail });
+  }
+});
+
+// Top values for search-box autocomplete after `field:`. Only exact-value
+// (keyword/numeric) fields are suggested; analyzed text has no useful terms.
+const SUGGEST_VALUES_SIZE = 10;
+
+function escapeLuceneRegex(input) {
+  return String(input).replace(/[.?+*|{}[\]()"\\#@&<>~^$-]/g, '\\$&');
+}
+
+app.post('/api/suggest/values', async (req, res) => {
+  const indexPattern = req.body?.indexPattern || appConfig.defaultIndexPattern;
+  const field = String(req.body?.field || '').trim();
+  const prefix = String(req.body?.prefix || '');
+  const start = req.body?.start;
+  const end = req.body?.end;
+  if (!field) return res.status(400).json({ error: 'Field is required.' });
+
+  const userKey = authEnabled() && req.user ? req.user.id : 'public';
+  const features = authEnabled() && req.user ? getUserFeatures(req.user) : { limitTo7Days: false, piiUnmasked: false };
+  if (authEnabled() && req.user && !isIndexPatternAllowed(req.user, indexPattern)) {
+    return res.status(403).json({ error: 'Index not allowed for your team.' });
+  }
+  // Suggestions never reveal protected values, masked or not.
+  const piiMatchers = features.piiUnmasked ? [] : buildPiiMatchers(appConfig.piiFieldRules);
+  if (getFieldPiiAction(field, piiMatchers)) {
+    return res.json({ field, values: [] });
+  }
+  const cacheKey = getCacheKey([
+    'suggest-values',
+    userKey,
+    indexPattern,
+    features.limitTo7Days ? 'recent-only' : 'all',
+    field,
+    prefix,
+    start,
+    end
+  ]);
+  const cached = cacheGet(cacheKey);
+  if (cached) return res.json(cached);
+
+  let fieldCaps = {};
+  try {
+    const capsRes = await axios.get(
+      `${getOpensearchBaseUrl()}/${indexPattern}/_field_caps`,
+      {
+        params: { fields: `${field},${field}.keyword` },
+        ...getOpensearchRequestOptions()
+      }
+    );
+    fieldCaps = capsRes.data?.fields || {};
+  } catch (err) {
+    console.warn('Field caps failed, skipping value suggestions.');
+  }
+  const actualField = pickAggregatableField(field, fieldCaps);
+  if (!actualField || getFieldPiiAction(actualField, piiMatchers)) {
+    const payload = { field, values: [] };
+    cacheSet(cacheKey, payload);
+    return res.json(payload);
+  }
+  const type = Object.keys(fieldCaps[actualField] || {})[0] || 'unknown';
+
+  const filter = [];
+  if (start && end) filter.push(buildTimeRangeFilter(indexPattern, start, end));
+  if (features.limitTo7Days) filter.push(buildRecentOnlyFilter(indexPattern));
+  const terms = { field: actualField, size: SUGGEST_VALUES_SIZE };
+  // `include` regexes only apply to string terms.
+  if (prefix && type === 'keyword') terms.include = `${escapeLuceneRegex(prefix)}.*`;
+
+  try {
+    const response = await axios.post(
+      `${getOpensearchBaseUrl()}/${indexPattern}/_search`,
+      { size: 0, query: { bool: { filter } }, aggs: { values: { terms } } },
+      { headers: { 'Content-Type': 'application/json' }, ...getOpensearchRequestOptions() }
+    );
+    const values = (response.data?.aggregations?.values?.buckets || [])
+      .map((b) => String(b.key_as_string ?? b.key))
+      .filter((value) => value.startsWith(prefix));
+    const payload = { field, values };
+    cacheSet(cacheKey, payload);
+    res.json(payload);
+  } catch (error) {
+    const detail = axios.isAxiosError(error)
+      ? (error.response?.data?.error?.reason || error.response?.data?.error || error.response?.data)
+      : error.message;
+    logError('suggest-values', { detail, indexPattern, field });
+    res.status(500).json({ error: 'Value suggestions failed', detail });
+  }
+});
+
+// === Search endpoint ===
+const SEARCH_PIT_KEEP_ALIVE = process.env.SEARCH_PIT_KEEP_ALIVE || '5m';
+const SEARCH_PIT_TTL_MS = 5 * 60 * 1000;
+// Point-in-time ids handed out by this proxy, so a client can only page through
+// a PIT it opened itself on an index it was allowed to search.
+const searchPits = new Map();
+
+function pruneSearchPits() {
+  const now = Date.now();
+  for (const [id, entry] of searchPits.entries()) {
+    if (entry.expiresAt < now) searchPits.delete(id);
+  }
+}
+
+async function openSearchPit(indexPattern, userKey) {
+  const response = await axios.post(
+    `${getOpensearchBaseUrl()}/${indexPattern}/_search/point_in_time?keep_alive=${SEARCH_PIT_KEEP_ALIVE}`,
+    null,
+    getOpensearchRequestOptions()
+  );
+  const id = response.data?.pit_id;
+  if (!id) return null;
+  pruneSearchPits();
+  searchPits.set(id, { indexPattern, userKey, expiresAt: Date.now() + SEARCH_PIT_TTL_MS });
+  return id;
+}
+
+async function closeSearchPit(id) {
+  searchPits.delete(id);
+  await axios.delete(`${getOpensearchBaseUrl()}/_search/point_in_time`, {
+    headers: { 'Content-Type': 'application/json' },
+    data: { pit_id: [id] },
+    ...getOpensearchRequestOptions()
+  });
+}
+
+// Paged searches send `pit: {}` on the first page after page 1 and `pit: { id }`
+// afterwards, always with `search_after`; page 1 is a plain, cached search. If
+// the cluster cannot open a PIT the request falls back to a plain search_after
+// search and the response carries no pit_id.
+app.post('/api/search/:indexPattern/_search', async (req, res) => {
+  let usedPit = false;
+  try {
+    const userKey = authEnabled() && req.user ? req.user.id : 'public';
     const features = authEnabled() && req.user ? getUserFeatures(req.user) : { limitTo7Days: false, piiUnmasked: false };
     if (authEnabled() && req.user && !isIndexPatternAllowed(req.user, req.params.indexPattern)) {
       return res.status(403).json({ error: 'Index not allowed for your team.' });
     }
+    const { pit: pitRequest, ...searchBody } = req.body || {};
     const effectiveBody = features.limitTo7Days
-      ? { ...req.body, query: applyRecentOnlyFilterToQuery(req.body?.query, req.params.indexPattern) }
-      : req.body;
+      ? { ...searchBody, query: applyRecentOnlyFilterToQuery(searchBody.query, req.params.indexPattern) }
+      : searchBody;
+
+    if (pitRequest && typeof pitRequest === 'object') {
+      let pitId = typeof pitRequest.id === 'string' ? pitRequest.id : '';
+      if (pitId) {
+        const entry = searchPits.get(pitId);
+        if (!entry || entry.userKey !== userKey || entry.indexPattern !== req.params.indexPattern) {
+          return res.status(410).json({ error: 'Search session expired. Run the search again.' });
+        }
+        entry.expiresAt = Date.now() + SEARCH_PIT_TTL_MS;
+      } else {
+        try {
+          pitId = await openSearchPit(req.params.indexPattern, userKey);
+        } catch (error) {
+          const detail = axios.isAxiosError(error) ? (error.response?.data?.error?.reason || error.message) : error.message;
+          logError('search-pit', { detail, indexPattern: req.params.indexPattern });
+          pitId = '';
+        }
+      }
+      const url = pitId
+        ? `${getOpensearchBaseUrl()}/_search`
+        : `${getOpensearchBaseUrl()}/${req.params.indexPattern}/_search`;
+      usedPit = Boolean(pitId);
+      const response = await axios.post(
+        url,
+        pitId ? { ...effectiveBody, pit: { id: pitId, keep_alive: SEARCH_PIT_KEEP_ALIVE } } : effectiveBody,
+        {
+          headers: { 'Content-Type': 'application/json' },
+          ...getOpensearchRequestOptions()
+        }
+      );
+      if (!searchBody.search_after) {
+        const query = extractQueryString(searchBody);
+        recordSearch(query, req.ip, { indexPattern: req.params.indexPattern, user: req.user?.username || 'public' });
+      }
+      const masked = features.piiUnmasked
+        ? response.data
+        : maskSearchResponse(response.data, appConfig.piiFieldRules);
+      // The cluster may return a different PIT id; the client keeps the latest,
+      // so the registry entry follows it.
+      const nextPitId = response.data?.pit_id || pitId;
+      if (pitId && nextPitId !== pitId) {
+        const entry = searchPits.get(pitId);
+        searchPits.delete(pitId);
+        if (entry) searchPits.set(nextPitId, entry);
+      }
+      return res.json({ ...masked, pit_id: pitId ? nextPitId : null });
+    }
+
     const cacheKey = getCacheKey([
       'search',
       userKey,
@@ -2538,8 +3889,10 @@ app.post('/api/search/:indexPattern/_search', async (req, res) => {
         ...getOpensearchRequestOptions()
       }
     );
-    const query = extractQueryString(req.body);
-    recordSearch(query, req.ip, { indexPattern: req.params.indexPattern, user: req.user?.username || 'public' });
+    if (!searchBody.search_after) {
+      const query = extractQueryString(req.body);
+      recordSearch(query, req.ip, { indexPattern: req.params.indexPattern, user: req.user?.username || 'public' });
+    }
     const masked = features.piiUnmasked
       ? response.data
       : maskSearchResponse(response.data, appConfig.piiFieldRules);
@@ -2553,10 +3906,393 @@ app.post('/api/search/:indexPattern/_search', async (req, res) => {
       : error.message;
     console.error('Search error:', detail || error.message);
     logError('search', { status, detail, indexPattern: req.params.indexPattern });
+    if (usedPit && status === 404) {
+      return res.status(410).json({ error: 'Search session expired. Run the search again.' });
+    }
     res.status(status).json({ error: 'Search failed', detail });
   }
 });
 
+app.post('/api/search/pit/close', async (req, res) => {
+  const id = typeof req.body?.id === 'string' ? req.body.id : '';
+  const userKey = authEnabled() && req.user ? req.user.id : 'public';
+  const entry = searchPits.get(id);
+  if (!entry || entry.userKey !== userKey) return res.json({ ok: true });
+  try {
+    await closeSearchPit(id);
+  } catch (error) {
+    logError('search-pit-close', { detail: error.message });
+  }
+  res.json({ ok: true });
+});
+
+// === SQL / PPL endpoint ===
+const SQL_LANGUAGES = { sql: '/_plugins/_sql', ppl: '/_plugins/_ppl' };
+
+const SQL_LITERAL_PLACEHOLDER = '__literal__';
+
+// Text used only for the index and field checks (the query is sent as
+// written). String literals become a placeholder so their contents can't hide
+// or fake a FROM/source clause; a placeholder that lands in an index position
+// is then rejected like any other unknown index. With `stripComments` the
+// comments are dropped, otherwise only their markers are, so the checks can
+// run over both readings of the statement.
+function prepareSqlForCheck(language, query, stripComments) {
+  const text = String(query || '');
+  const literalQuotes = language === 'ppl' ? ['\'', '"'] : ['\''];
+  let out = '';
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    const two = text.slice(i, i + 2);
+    if (literalQuotes.includes(ch)) {
+      let j = i + 1;
+      while (j < text.length) {
+        if (text[j] === '\\') {
+          j += 2;
+        } else if (text[j] === ch && text[j + 1] === ch) {
+          j += 2;
+        } else if (text[j] === ch) {
+          break;
+        } else {
+          j += 1;
+        }
+      }
+      out += `${ch}${SQL_LITERAL_PLACEHOLDER}${ch}`;
+      i = j + 1;
+    } else if (ch === '`' || (ch === '"' && language !== 'ppl')) {
+      // Quoted identifiers are kept as written.
+      const close = text.indexOf(ch, i + 1);
+      const next = close === -1 ? text.length : close + 1;
+      out += text.slice(i, next);
+      i = next;
+    } else if (language === 'sql' && two === '/*') {
+      const close = text.indexOf('*/', i + 2);
+      const next = close === -1 ? text.length : close + 2;
+      out += stripComments ? ' ' : ` ${text.slice(i + 2, close === -1 ? text.length : close)} `;
+      i = next;
+    } else if (language === 'sql' && (two === '--' || ch === '#')) {
+      const close = text.indexOf('\n', i);
+      const next = close === -1 ? text.length : close;
+      out += stripComments ? ' ' : ` ${text.slice(i + (ch === '#' ? 1 : 2), next)}`;
+      i = next;
+    } else {
+      out += ch;
+      i += 1;
+    }
+  }
+  return out.trim();
+}
+
+function unquoteIdentifier(raw) {
+  return String(raw || '').trim().replace(/^[`"']|[`"']$/g, '');
+}
+
+const SQL_IDENTIFIER = '(?:`[^`]*`|"[^"]*"|\'[^\']*\'|[\\w.*:-]+)';
+const SQL_CLAUSE_KEYWORDS = ['WHERE', 'JOIN', 'GROUP', 'ORDER', 'LIMIT', 'ON', 'INNER', 'LEFT', 'RIGHT', 'OUTER', 'CROSS', 'NATURAL', 'FULL', 'UNION', 'HAVING', 'USING'];
+
+// Every index a statement reads from: SQL FROM/JOIN lists (including
+// subqueries) and PPL source=/index= lists.
+function extractSqlIndexes(language, query) {
+  const indexes = [];
+  const itemRe = new RegExp(`^\\s*(${SQL_IDENTIFIER})`);
+  const aliasRe = /^\s+(?:AS\s+)?(\w+)/i;
+  const readList = (rest, allowAlias) => {
+    let remaining = rest;
+    for (;;) {
+      const item = itemRe.exec(remaining);
+      if (!item) return;
+      const name = unquoteIdentifier(item[1]);
+      if (name) indexes.push(name);
+      remaining = remaining.slice(item[0].length);
+      const alias = allowAlias ? aliasRe.exec(remaining) : null;
+      if (alias && !SQL_CLAUSE_KEYWORDS.includes(alias[1].toUpperCase())) {
+        remaining = remaining.slice(alias[0].length);
+      }
+      const comma = /^\s*,/.exec(remaining);
+      if (!comma) return;
+      remaining = remaining.slice(comma[0].length);
+    }
+  };
+  const keywordRe = language === 'ppl'
+    ? /\b(?:source|index)\s*=/gi
+    : /\b(?:FROM|JOIN)(?!\w)/gi;
+  let match;
+  while ((match = keywordRe.exec(query))) {
+    readList(query.slice(match.index + match[0].length), language !== 'ppl');
+  }
+  return indexes;
+}
+
+// Identifiers in the statement that fall under a PII rule. Referencing them at
+// all (select, alias, filter, eval) could expose or probe protected values.
+function findProtectedReferences(query, matchers) {
+  const identifiers = String(query).match(/[`"]?[A-Za-z_@][\w.@-]*[`"]?/g) || [];
+  const found = new Set();
+  identifiers.map(unquoteIdentifier).forEach((name) => {
+    if (getPiiAction(name, matchers)) found.add(name);
+  });
+  return [...found];
+}
+
+function maskSqlResponse(data, rules) {
+  const matchers = buildPiiMatchers(rules);
+  const schema = Array.isArray(data?.schema) ? data.schema : [];
+  const datarows = Array.isArray(data?.datarows) ? data.datarows : [];
+  if (matchers.length === 0) return { schema, datarows };
+  const columns = schema.map((column, idx) => ({ column, idx, path: column.name }))
+    .filter(({ path }) => getPiiAction(path, matchers) !== 'hide');
+  return {
+    schema: columns.map(({ column }) => column),
+    datarows: datarows.map((row) => columns.map(({ idx, path }) => {
+      const value = applyPiiRules(row[idx], path, matchers);
+      return value === REMOVE_FIELD ? null : value;
+    }))
+  };
+}
+
+app.post('/api/sql', async (req, res) => {
+  const language = req.body?.language === 'ppl' ? 'ppl' : 'sql';
+  const query = String(req.body?.query || '').trim();
+  const checkText = prepareSqlForCheck(language, query, true);
+  const markerText = prepareSqlForCheck(language, query, false);
+  if (!query || !checkText) return res.status(400).json({ error: 'Query is required.' });
+  if (language === 'ppl' && /\|\s*(?:join|lookup)\b/i.test(checkText)) {
+    return res.status(400).json({ error: 'PPL join and lookup commands are not supported.' });
+  }
+
+  const features = authEnabled() && req.user ? getUserFeatures(req.user) : { limitTo7Days: false, piiUnmasked: false };
+  const indexes = [...new Set([...extractSqlIndexes(language, checkText), ...extractSqlIndexes(language, markerText)])];
+  if (authEnabled() && req.user && req.user.role !== 'admin') {
+    if (indexes.length === 0) {
+      return res.status(400).json({ error: language === 'ppl' ? 'Add source=<index> to the query.' : 'Add FROM <index> to the query.' });
+    }
+    const denied = indexes.find((index) => !isIndexPatternAllowed(req.user, index));
+    if (denied) return res.status(403).json({ error: `Index not allowed for your team: ${denied}` });
+  }
+  if (!features.piiUnmasked) {
+    const references = findProtectedReferences(markerText, buildPiiMatchers(appConfig.piiFieldRules));
+    if (references.length > 0) {
+      return res.status(403).json({ error: `Query references protected fields: ${references.join(', ')}` });
+    }
+  }
+  // The SQL plugin applies `filter` as an extra DSL clause; PPL has no
+  // equivalent, so recent-only users are limited to SQL.
+  const body = { query };
+  if (features.limitTo7Days) {
+    if (language === 'ppl') {
+      return res.status(403).json({ error: 'PPL is not available while your access is limited to recent logs. Use SQL instead.' });
+    }
+    body.filter = buildRecentOnlyFilter(indexes[0] || appConfig.defaultIndexPattern);
+  }
+
+  try {
+    const response = await axios.post(
+      `${getOpensearchBaseUrl()}${SQL_LANGUAGES[language]}`,
+      body,
+      { headers: { 'Content-Type': 'application/json' }, ...getOpensearchRequestOptions() }
+    );
+    recordSearch(query, req.ip, { indexPattern: indexes.join(','), user: req.user?.username || 'public' });
+    const table = features.piiUnmasked
+      ? { schema: response.data?.schema || [], datarows: response.data?.datarows || [] }
+      : maskSqlResponse(response.data, appConfig.piiFieldRules);
+    res.json({
+      ...table,
+      total: response.data?.total ?? table.datarows.length,
+      size: response.data?.size ?? table.datarows.length
+    });
+  } catch (error) {
+    const status = axios.isAxiosError(error) && error.response?.status === 400 ? 400 : 500;
+    const detail = axios.isAxiosError(error)
+      ? (error.response?.data?.error?.details || error.response?.data?.error?.reason || error.response?.data?.error || error.response?.data)
+      : error.message;
+    logError('sql', { detail, language });
+    res.status(status).json({ error: 'Query failed', detail });
+  }
+});
+
+const TAIL_MAX_SIZE = 200;
+
+function getHitTimestamp(hit, indexPattern) {
+  const source = hit?._source || {};
+  for (const field of getIndexTimeFields(indexPattern)) {
+    const value = source[field] ?? field.split('.').reduce((acc, part) => (acc && typeof acc === 'object' ? acc[part] : undefined), source);
+    if (value === undefined || value === null || value === '') continue;
+    const time = new Date(value);
+    if (!Number.isNaN(time.getTime())) return time;
+  }
+  return null;
+}
+
+// Live tail polling: returns documents at or after `since` (newest first). Clients
+// dedupe by _id because the lower bound is inclusive.
+app.post('/api/tail/:indexPattern', async (req, res) => {
+  const indexPattern = req.params.indexPattern;
+  const features = authEnabled() && req.user ? getUserFeatures(req.user) : { limitTo7Days: false, piiUnmasked: false };
+  if (authEnabled() && req.user && !isIndexPatternAllowed(req.user, indexPattern)) {
+    return res.status(403).json({ error: 'Index not allowed for your team.' });
+  }
+  const now = new Date();
+  const sinceRaw = req.body?.since ? new Date(req.body.since) : null;
+  const since = sinceRaw && !Number.isNaN(sinceRaw.getTime()) ? sinceRaw : new Date(now.getTime() - 60 * 1000);
+  const size = Math.min(Math.max(Number(req.body?.size || 100), 1), TAIL_MAX_SIZE);
+  const clause = req.body?.query && typeof req.body.query === 'object' ? req.body.query : null;
+  const baseQuery = {
+    bool: {
+      must: clause ? [clause] : [],
+      filter: [buildTimeRangeFilter(indexPattern, since.toISOString(), now.toISOString())]
+    }
+  };
+  const query = features.limitTo7Days ? applyRecentOnlyFilterToQuery(baseQuery, indexPattern) : baseQuery;
+  try {
+    const response = await axios.post(
+      `${getOpensearchBaseUrl()}/${indexPattern}/_search`,
+      {
+        query,
+        size,
+        track_total_hits: true,
+        sort: [
+          { timestamp: { order: 'desc', unmapped_type: 'date' } },
+          { '@timestamp': { order: 'desc', unmapped_type: 'date' } }
+        ]
+      },
+      {
+        headers: { 'Content-Type': 'application/json' },
+        ...getOpensearchRequestOptions()
+      }
+    );
+    const masked = features.piiUnmasked
+      ? response.data
+      : maskSearchResponse(response.data, appConfig.piiFieldRules);
+    const hits = masked?.hits?.hits || [];
+    const totalRaw = response.data?.hits?.total;
+    const total = typeof totalRaw === 'number' ? totalRaw : Number(totalRaw?.value || 0);
+    const latest = hits.reduce((acc, hit) => {
+      const time = getHitTimestamp(hit, indexPattern);
+      return time && (!acc || time > acc) ? time : acc;
+    }, null);
+    res.json({
+      hits,
+      total,
+      truncated: total > hits.length,
+      latest: latest ? latest.toISOString() : since.toISOString(),
+      serverTime: now.toISOString()
+    });
+  } catch (error) {
+    const isAxios = axios.isAxiosError(error);
+    const status = isAxios && error.response?.status ? error.response.status : 500;
+    const detail = isAxios
+      ? (error.response?.data?.error?.reason || error.response?.data?.error || error.response?.data)
+      : error.message;
+    logError('tail', { status, detail, indexPattern });
+    res.status(status).json({ error: 'Live tail failed', detail });
+  }
+});
+
+const CONTEXT_MAX_SIZE = 100;
+
+async function searchContextSide(indexPattern, body) {
+  const response = await axios.post(
+    `${getOpensearchBaseUrl()}/${indexPattern}/_search`,
+    body,
+    {
+      headers: { 'Content-Type': 'application/json' },
+      ...getOpensearchRequestOptions()
+    }
+  );
+  return response.data?.hits?.hits || [];
+}
+
+// Surrounding context for one hit: the `size` documents immediately before and
+// after it by time, regardless of the search query, optionally limited to
+// documents sharing the anchor's value for `sameField`.
+app.post('/api/context/:indexPattern', async (req, res) => {
+  const indexPattern = req.params.indexPattern;
+  const features = authEnabled() && req.user ? getUserFeatures(req.user) : { limitTo7Days: false, piiUnmasked: false };
+  if (authEnabled() && req.user && !isIndexPatternAllowed(req.user, indexPattern)) {
+    return res.status(403).json({ error: 'Index not allowed for your team.' });
+  }
+  const anchorId = String(req.body?.id || '').trim();
+  if (!anchorId) return res.status(400).json({ error: 'Document id is required.' });
+  const size = Math.min(Math.max(Number(req.body?.size || 10), 1), CONTEXT_MAX_SIZE);
+  const sameField = String(req.body?.sameField || '').trim();
+  // Filtering on a protected field would reveal its value in sameValue, or let
+  // it be probed through the result counts.
+  const piiMatchers = features.piiUnmasked ? [] : buildPiiMatchers(appConfig.piiFieldRules);
+  if (sameField && getFieldPiiAction(sameField, piiMatchers)) {
+    return res.status(403).json({ error: `Context cannot be limited by ${sameField}.` });
+  }
+  const scope = (query) => (features.limitTo7Days ? applyRecentOnlyFilterToQuery(query, indexPattern) : query);
+
+  try {
+    const anchorHits = await searchContextSide(indexPattern, {
+      size: 1,
+      query: scope({ bool: { filter: [{ ids: { values: [anchorId] } }] } })
+    });
+    const anchor = anchorHits[0];
+    if (!anchor) return res.status(404).json({ error: 'Document not found.' });
+    const anchorTime = getHitTimestamp(anchor, indexPattern);
+    if (!anchorTime) return res.status(400).json({ error: 'Document has no timestamp.' });
+    const timeField = await resolveTimeField(indexPattern);
+
+    const filters = [];
+    let sameValue = null;
+    if (sameField) {
+      sameValue = sameField.split('.').reduce((acc, part) => (acc && typeof acc === 'object' ? acc[part] : undefined), anchor._source || {});
+      if (sameValue === undefined || sameValue === null || typeof sameValue === 'object') {
+        return res.status(400).json({ error: `Document has no value for ${sameField}.` });
+      }
+      const aggField = await resolveAggregatableField(indexPattern, sameField);
+      if (aggField && getFieldPiiAction(aggField, piiMatchers)) {
+        return res.status(403).json({ error: `Context cannot be limited by ${sameField}.` });
+      }
+      filters.push({ term: { [aggField || sameField]: sameValue } });
+    }
+
+    const anchorMs = anchorTime.getTime();
+    const sideBody = (order) => ({
+      size,
+      query: scope({ bool: { filter: filters } }),
+      sort: [{ [timeField]: { order, unmapped_type: 'date' } }],
+      search_after: [anchorMs]
+    });
+    const [beforeHits, afterHits, sameTimeHits] = await Promise.all([
+      searchContextSide(indexPattern, sideBody('desc')),
+      searchContextSide(indexPattern, sideBody('asc')),
+      searchContextSide(indexPattern, {
+        size,
+        query: scope({
+          bool: {
+            filter: [
+              ...filters,
+              { range: { [timeField]: { gte: anchorMs, lte: anchorMs, format: 'epoch_millis' } } }
+            ],
+            must_not: [{ ids: { values: [anchorId] } }]
+          }
+        })
+      })
+    ]);
+    const mask = (hits) => (features.piiUnmasked ? hits : applyPiiRulesToHits(hits, appConfig.piiFieldRules));
+    res.json({
+      timeField,
+      sameField: sameField || null,
+      sameValue,
+      anchor: mask([anchor])[0],
+      before: mask(beforeHits.reverse()),
+      sameTime: mask(sameTimeHits),
+      after: mask(afterHits)
+    });
+  } catch (error) {
+    const isAxios = axios.isAxiosError(error);
+    const status = isAxios && error.response?.status ? error.response.status : 500;
+    const detail = isAxios
+      ? (error.response?.data?.error?.reason || error.response?.data?.error || error.response?.data)
+      : error.message;
+    logError('context', { status, detail, indexPattern });
+    res.status(status).json({ error: 'Context lookup failed', detail });
+  }
+});
+
 // === Export endpoint (fixed) ===
 app.post('/api/export/estimate', async (req, res) => {
   const { query, indexPattern = appConfig.defaultIndexPattern } = req.body || {};
@@ -2797,6 +4533,83 @@ app.post('/api/admin/email/test', async (req, res) => {
   }
 });
 
+app.get('/api/admin/channels', (req, res) => {
+  res.json(channels.channels || []);
+});
+
+app.get('/api/admin/alerts', (req, res) => {
+  res.json({
+    events: maskAlertEvents(listAlertEvents(req.query, () => true), { piiUnmasked: false }),
+    snoozes: listRuleSnoozes(() => true)
+  });
+});
+
+app.post('/api/admin/alerts/:id/ack', (req, res) => {
+  const event = acknowledgeAlertEvent(req.params.id, 'admin');
+  if (!event) return res.status(404).json({ error: 'Alert not found.' });
+  res.json(event);
+});
+
+app.post('/api/admin/alerts/snooze', (req, res) => {
+  const rule = rules.rules.find((entry) => entry.id === req.body?.ruleId);
+  if (!rule) return res.status(404).json({ error: 'Rule not found.' });
+  const result = snoozeRule(rule.id, req.body?.until);
+  if (result.error) return res.status(400).json({ error: result.error });
+  logActivity('alert_snooze', {
+    user: 'admin',
+    ip: req.ip,
+    message: result.until ? `Rule snoozed until ${result.until}: ${rule.name}` : `Rule snooze cleared: ${rule.name}`
+  });
+  res.json(result);
+});
+
+app.put('/api/admin/channels', (req, res) => {
+  const incoming = Array.isArray(req.body) ? req.body : [];
+  const normalized = normalizeChannels({ channels: incoming });
+  const validationError = normalized.channels.map(getChannelValidationError).find(Boolean);
+  if (validationError) return res.status(400).json({ error: validationError });
+  channels = normalized;
+  saveJson(CHANNELS_PATH, channels);
+  logActivity('channels_update', { user: 'admin', ip: req.ip, message: 'Notification channels updated' });
+  res.json(channels.channels);
+});
+
+app.post('/api/admin/channels/test', async (req, res) => {
+  const channel = normalizeChannels({ channels: [req.body || {}] }).channels[0];
+  if (!channel) return res.status(400).json({ error: 'Channel name is required.' });
+  const validationError = getChannelValidationError(channel);
+  if (validationError) return res.status(400).json({ error: validationError });
+  const now = new Date().toISOString();
+  const message = {
+    subject: 'LogSearch Test Notification',
+    text: `This is a test notification from LogSearch for channel "${channel.name}".`,
+    vars: {
+      ruleId: 'test',
+      ruleName: 'Test notification',
+      query: '*',
+      indexPattern: appConfig.defaultIndexPattern,
+      condition: 'count > 0',
+      threshold: 0,
+      windowMinutes: 5,
+      value: '1',
+      team: '',
+      triggeredAt: now
+    }
+  };
+  try {
+    const ok = await sendToChannel(channel, message);
+    if (!ok) {
+      return res.status(400).json({ error: 'Email settings missing or incomplete.' });
+    }
+    return res.json({ ok: true });
+  } catch (error) {
+    const detail = axios.isAxiosError(error)
+      ? (error.response ? `HTTP ${error.response.status}` : error.message)
+      : error.message;
+    return res.status(500).json({ error: 'Test notification failed.', detail });
+  }
+});
+
 app.put('/api/admin/config', (req, res) => {
   const next = { ...appConfig };
   if (req.body?.opensearchHost !== undefined) next.opensearchHost = String(req.body.opensearchHost).trim();
@@ -3103,6 +4916,10 @@ app.get('/api/admin/diagnostics', async (req, res) => {
   res.json(result);
 });
 
+app.post('/api/admin/rules/preview', async (req, res) => {
+  await handleRulePreview(normalizeRulePreviewBody(req.body), res);
+});
+
 app.get('/api/admin/rules', (req, res) => {
   res.json(rules.rules || []);
 });
@@ -3110,6 +4927,8 @@ app.get('/api/admin/rules', (req, res) => {
 app.put('/api/admin/rules', (req, res) => {
   const incoming = Array.isArray(req.body) ? req.body : [];
   const normalized = normalizeRules({ rules: incoming });
+  const validationError = normalized.rules.map(getRuleValidationError).find(Boolean);
+  if (validationError) return res.status(400).json({ error: validationError });
   rules.rules = normalized.rules;
   saveJson(RULES_PATH, rules);
   logActivity('alert_rules_update', { user: 'admin', ip: req.ip, message: 'Alert rules updated' });
@@ -3131,6 +4950,49 @@ app.get('/api/admin/admin-faqs', (req, res) => {
   res.json(adminFaqs.sections || []);
 });
 
+// Field list for the results table column picker.
+app.get('/api/fields/:indexPattern', async (req, res) => {
+  const indexPattern = req.params.indexPattern;
+  if (authEnabled() && req.user && !isIndexPatternAllowed(req.user, indexPattern)) {
+    return res.status(403).json({ error: 'Index not allowed for your team.' });
+  }
+  const cacheKey = getCacheKey(['fields', indexPattern]);
+  const cached = cacheGet(cacheKey);
+  if (cached) return res.json(cached);
+  try {
+    const capsRes = await axios.get(
+      `${getOpensearchBaseUrl()}/${indexPattern}/_field_caps`,
+      {
+        params: { fields: '*' },
+        ...getOpensearchRequestOptions()
+      }
+    );
+    const fields = Object.entries(capsRes.data?.fields || {})
+      .filter(([name]) => !name.startsWith('_'))
+      .map(([name, types]) => {
+        const entries = Object.entries(types || {}).filter(([type]) => type !== 'object' && type !== 'nested');
+        if (entries.length === 0) return null;
+        return {
+          name,
+          type: entries.length === 1 ? entries[0][0] : 'conflict',
+          aggregatable: entries.every(([, caps]) => caps?.aggregatable),
+          searchable: entries.some(([, caps]) => caps?.searchable)
+        };
+      })
+      .filter(Boolean)
+      .sort((a, b) => a.name.localeCompare(b.name));
+    const payload = { fields };
+    cacheSet(cacheKey, payload);
+    res.json(payload);
+  } catch (error) {
+    const detail = axios.isAxiosError(error)
+      ? (error.response?.data?.error?.reason || error.response?.data?.error || error.response?.data)
+      : error.message;
+    logError('fields', { detail, indexPattern });
+    res.status(502).json({ error: 'Field lookup failed', detail });
+  }
+});
+
 app.get('/api/field-glossary', (req, res) => {
   res.json(fieldGlossary.fields || {});
 });
@@ -3143,19 +5005,47 @@ app.post('/api/admin/team-bookmarks', (req, res) => {
   const name = String(req.body?.name || '').trim();
   const query = String(req.body?.query || '').trim();
   const team = req.body?.team ? String(req.body.team).trim() : undefined;
-  if (!name || !query) {
+  const state = normalizeSavedSearchState(req.body?.state);
+  if (!name || (!query && !state)) {
     return res.status(400).json({ error: 'Name and query are required.' });
   }
   const existing = teamBookmarks.bookmarks.find(
-    (b) => b.name === name && b.query === query && b.team === team
+    (b) => b.name === name && b.query === query && b.team === team && JSON.stringify(b.state) === JSON.stringify(state)
   );
   if (existing) return res.json(existing);
-  const bookmark = { id: crypto.randomUUID(), name, query, team, createdAt: new Date().toISOString() };
+  const bookmark = { id: crypto.randomUUID(), name, query, team, state, createdAt: new Date().toISOString() };
   teamBookmarks.bookmarks.push(bookmark);
   saveJson(TEAM_BOOKMARKS_PATH, teamBookmarks);
   res.json(bookmark);
 });
 
+app.get('/api/admin/links', (req, res) => {
+  res.json(shortLinks.links.map((link) => ({ ...link, expired: isShortLinkExpired(link) })));
+});
+
+app.delete('/api/admin/links/:id', (req, res) => {
+  const before = shortLinks.links.length;
+  shortLinks.links = shortLinks.links.filter((link) => link.id !== req.params.id);
+  saveJson(LINKS_PATH, shortLinks);
+  res.json({ removed: before - shortLinks.links.length });
+});
+
+// Drops expired links, plus links nobody has opened in `unusedDays` days when given.
+app.post('/api/admin/links/cleanup', (req, res) => {
+  const unusedDays = Number(req.body?.unusedDays) || 0;
+  const cutoff = Date.now() - unusedDays * 24 * 60 * 60 * 1000;
+  const before = shortLinks.links.length;
+  shortLinks.links = shortLinks.links.filter((link) => {
+    if (isShortLinkExpired(link)) return false;
+    if (!unusedDays) return true;
+    return Date.parse(link.lastOpenedAt || link.createdAt) > cutoff;
+  });
+  saveJson(LINKS_PATH, shortLinks);
+  const removed = before - shortLinks.links.length;
+  logActivity('links_cleanup', { user: 'admin', ip: req.ip, message: `Removed ${removed} short link(s)` });
+  res.json({ removed });
+});
+
 app.delete('/api/admin/team-bookmarks/:id', (req, res) => {
   const before = teamBookmarks.bookmarks.length;
   teamBookmarks.bookmarks = teamBookmarks.bookmarks.filter((b) => b.id !== req.params.id);
@@ -3174,6 +5064,135 @@ app.get('/api/rules', (req, res) => {
   res.json(list);
 });
 
+function listAlertEvents(filters, visibleRule) {
+  const status = filters.status === 'open' || filters.status === 'acknowledged' ? filters.status : 'all';
+  const limit = Math.min(Math.max(Number(filters.limit || 100), 1), 500);
+  return alertEvents.events
+    .filter((event) => visibleRule(event))
+    .filter((event) => !filters.ruleId || event.ruleId === filters.ruleId)
+    .filter((event) => {
+      if (status === 'open') return !event.acknowledgedAt;
+      if (status === 'acknowledged') return Boolean(event.acknowledgedAt);
+      return true;
+    })
+    .slice(0, limit);
+}
+
+function listRuleSnoozes(visibleRule) {
+  const now = new Date();
+  return rules.rules
+    .filter((rule) => visibleRule(rule) && isRuleSnoozed(rule.id, now))
+    .map((rule) => ({ ruleId: rule.id, ruleName: rule.name, until: rulesState.snoozedUntil[rule.id] }));
+}
+
+function acknowledgeAlertEvent(id, by) {
+  const event = alertEvents.events.find((entry) => entry.id === id);
+  if (!event) return null;
+  if (!event.acknowledgedAt) {
+    event.acknowledgedAt = new Date().toISOString();
+    event.acknowledgedBy = by;
+    saveJson(ALERT_EVENTS_PATH, alertEvents);
+  }
+  return event;
+}
+
+// Passing an empty or past `until` clears the snooze.
+function snoozeRule(ruleId, until) {
+  const time = until ? new Date(until) : null;
+  if (time && Number.isNaN(time.getTime())) return { error: 'Invalid snooze time.' };
+  if (time && time.getTime() > Date.now()) {
+    rulesState.snoozedUntil[ruleId] = time.toISOString();
+  } else {
+    delete rulesState.snoozedUntil[ruleId];
+  }
+  saveJson(RULES_STATE_PATH, rulesState);
+  return { ruleId, until: rulesState.snoozedUntil[ruleId] || null };
+}
+
+function getUserAlertScope(req, res, needsEditor) {
+  if (!authEnabled()) return () => true;
+  if (!req.user) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return null;
+  }
+  const features = getUserFeatures(req.user);
+  if (!features.rules) {
+    res.status(403).json({ error: 'Feature disabled' });
+    return null;
+  }
+  if (needsEditor && req.user.role === 'viewer') {
+    res.status(403).json({ error: 'Forbidden' });
+    return null;
+  }
+  if (req.user.role === 'admin') return () => true;
+  return (entry) => Boolean(entry.team) && req.user.teams.includes(entry.team);
+}
+
+function maskAlertEvents(events, features) {
+  if (features.piiUnmasked) return events;
+  return events.map((event) => ({
+    ...event,
+    sampleHits: applyPiiRulesToHits(event.sampleHits || [], appConfig.piiFieldRules)
+  }));
+}
+
+app.get('/api/alerts', (req, res) => {
+  const visible = getUserAlertScope(req, res, false);
+  if (!visible) return;
+  const features = authEnabled() ? getUserFeatures(req.user) : { piiUnmasked: false };
+  res.json({
+    events: maskAlertEvents(listAlertEvents(req.query, visible), features),
+    snoozes: listRuleSnoozes(visible)
+  });
+});
+
+app.post('/api/alerts/:id/ack', (req, res) => {
+  const visible = getUserAlertScope(req, res, true);
+  if (!visible) return;
+  const existing = alertEvents.events.find((entry) => entry.id === req.params.id);
+  if (!existing || !visible(existing)) return res.status(404).json({ error: 'Alert not found.' });
+  const event = acknowledgeAlertEvent(req.params.id, req.user?.username || 'public');
+  res.json(event);
+});
+
+app.post('/api/alerts/snooze', (req, res) => {
+  const visible = getUserAlertScope(req, res, true);
+  if (!visible) return;
+  const rule = rules.rules.find((entry) => entry.id === req.body?.ruleId);
+  if (!rule || !visible(rule)) return res.status(404).json({ error: 'Rule not found.' });
+  const result = snoozeRule(rule.id, req.body?.until);
+  if (result.error) return res.status(400).json({ error: result.error });
+  logActivity('alert_snooze', {
+    user: req.user?.username || 'public',
+    ip: req.ip,
+    message: result.until ? `Rule snoozed until ${result.until}: ${rule.name}` : `Rule snooze cleared: ${rule.name}`
+  });
+  res.json(result);
+});
+
+app.get('/api/channels', (req, res) => {
+  if (authEnabled()) {
+    const features = getUserFeatures(req.user);
+    if (!features.rules) return res.status(403).json({ error: 'Feature disabled' });
+  }
+  res.json(channels.channels
+    .filter((entry) => entry.enabled)
+    .map((entry) => ({ id: entry.id, name: entry.name, type: entry.type })));
+});
+
+app.post('/api/rules/preview', async (req, res) => {
+  const rule = normalizeRulePreviewBody(req.body);
+  if (authEnabled()) {
+    if (!req.user) return res.status(401).json({ error: 'Unauthorized' });
+    const features = getUserFeatures(req.user);
+    if (!features.rules) return res.status(403).json({ error: 'Feature disabled' });
+    if (rule && !isIndexPatternAllowed(req.user, rule.indexPattern)) {
+      return res.status(403).json({ error: 'Index not allowed for your team.' });
+    }
+  }
+  await handleRulePreview(rule, res);
+});
+
 app.put('/api/rules', (req, res) => {
   if (authEnabled()) {
     if (!req.user) return res.status(401).json({ error: 'Unauthorized' });
@@ -3183,11 +5202,16 @@ app.put('/api/rules', (req, res) => {
   }
   const incoming = Array.isArray(req.body) ? req.body : [];
   const normalized = normalizeRules({ rules: incoming }).rules;
+  const validationError = normalized.map(getRuleValidationError).find(Boolean);
+  if (validationError) return res.status(400).json({ error: validationError });
   if (!authEnabled() || req.user.role === 'admin') {
     rules.rules = normalized;
   } else {
     const allowedTeams = new Set(req.user.teams);
     const filtered = normalized.filter((r) => allowedTeams.has(r.team));
+    if (filtered.some((r) => !isIndexPatternAllowed(req.user, r.indexPattern))) {
+      return res.status(403).json({ error: 'Index not allowed for your team.' });
+    }
     const preserved = rules.rules.filter((r) => !allowedTeams.has(r.team));
     rules.rules = [...preserved, ...filtered];
   }
@@ -3276,7 +5300,10 @@ app.get('/api/admin/backup', (req, res) => {
     exportedAt: new Date().toISOString(),
     appConfig,
     rules,
+    channels,
     teamBookmarks,
+    savedSearches,
+    shortLinks,
     users,
     featureToggles,
     teams
@@ -3297,10 +5324,22 @@ app.post('/api/admin/restore', (req, res) => {
     rules = normalizeRules(payload.rules);
     saveJson(RULES_PATH, rules);
   }
+  if (payload.channels) {
+    channels = normalizeChannels(payload.channels);
+    saveJson(CHANNELS_PATH, channels);
+  }
   if (payload.teamBookmarks) {
     teamBookmarks = normalizeTeamBookmarks(payload.teamBookmarks);
     saveJson(TEAM_BOOKMARKS_PATH, teamBookmarks);
   }
+  if (payload.savedSearches) {
+    savedSearches = normalizeSavedSearches(payload.savedSearches);
+    saveJson(SAVED_SEARCHES_PATH, savedSearches);
+  }
+  if (payload.shortLinks) {
+    shortLinks = normalizeShortLinks(payload.shortLinks);
+    saveJson(LINKS_PATH, shortLinks);
+  }
   if (payload.users) {
     users = normalizeUsers(payload.users);
     saveJson(USERS_PATH, users);